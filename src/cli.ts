@@ -0,0 +1,319 @@
+import { existsSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import { parseArgs } from 'util';
+import {
+  CONFIG_FILE_NAMES,
+  findProjectConfig,
+  loadProjectConfig,
+} from './config/project-config.js';
+import type { JSXPropAnalyzer, RuleSeverity, SpreadPolicy } from './jsx-analyzer.js';
+import {
+  REPORT_FORMATS,
+  auditReport,
+  formatReport,
+  missingPropReport,
+} from './utils/report-formats.js';
+import type { ReportFormat } from './utils/report-formats.js';
+
+export const CLI_COMMANDS = ['analyze', 'usage', 'component', 'missing', 'audit'] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+/** Exit code when audit findings exceed `--max-findings` */
+const EXIT_FINDINGS = 1;
+/** Exit code for invalid arguments and failed analyses */
+const EXIT_ERROR = 2;
+
+const SPREAD_POLICIES: SpreadPolicy[] = ['assumePresent', 'assumeMissing', 'report'];
+const SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info'];
+
+export const CLI_USAGE = `COMMANDS:
+  Run a single analysis and print the result instead of starting the server:
+
+  jsx-prop-lookup analyze [path] [--component <name>] [--prop <name>] [--no-types]
+      Prop usages in a file or directory (analyze_jsx_props)
+  jsx-prop-lookup usage <prop> [--dir <dir>] [--component <name>]
+      Every usage of a prop (find_prop_usage)
+  jsx-prop-lookup component <name> [--dir <dir>]
+      Props declared by a component (get_component_props)
+  jsx-prop-lookup missing <component> [prop] [--dir <dir>] [--spread-policy <policy>]
+      Usages lacking a prop, or every prop the definition requires (find_components_without_prop)
+  jsx-prop-lookup audit [--dir <dir>] [--config <file>] [--fail-on <severity>]
+      Rules of the project's .jsxproprc.json (audit_project)
+
+  --format <format>       table (default) or json; missing and audit also accept
+                          sarif, junit and github-annotations
+  --max-findings <n>      missing and audit exit with code ${EXIT_FINDINGS} when they report more
+                          than n findings (default: 0)
+  --fail-on <severity>    audit: lowest severity counted as a finding: error
+                          (default), warning or info
+  --root <dir>            Directory sarif, junit and github-annotations paths are
+                          relative to (default: $GITHUB_WORKSPACE, else the git
+                          repository of --dir, else the working directory)
+
+  Invalid arguments and failed analyses exit with code ${EXIT_ERROR}.
+`;
+
+const OPTIONS = {
+  dir: { type: 'string', short: 'd', default: '.' },
+  component: { type: 'string', short: 'c' },
+  prop: { type: 'string', short: 'p' },
+  'no-types': { type: 'boolean', default: false },
+  'spread-policy': { type: 'string', default: 'report' },
+  config: { type: 'string' },
+  root: { type: 'string' },
+  format: { type: 'string', short: 'f', default: 'table' },
+  'max-findings': { type: 'string', default: '0' },
+  'fail-on': { type: 'string', default: 'error' },
+  help: { type: 'boolean', short: 'h', default: false },
+  // Analyzer options, read by the entry point
+  'allowed-roots': { type: 'string' },
+  'custom-hocs': { type: 'string' },
+  'cache-dir': { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  workers: { type: 'string' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+export function isCliCommand(arg: string | undefined): arg is CliCommand {
+  return (CLI_COMMANDS as readonly string[]).includes(arg ?? '');
+}
+
+function oneOf<T extends string>(name: string, value: string, allowed: readonly T[]): T {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`Invalid ${name}: ${value} (expected ${allowed.join(', ')})`);
+  }
+  return value as T;
+}
+
+/** `file:line:column` relative to the working directory, with a 1-based column */
+function location(usage: { file: string; line: number; column: number }): string {
+  return `${relative(process.cwd(), usage.file) || usage.file}:${usage.line}:${usage.column + 1}`;
+}
+
+/**
+ * Directory report paths are relative to, so that they name files as the repository does
+ * whichever subdirectory is analyzed: `--root`, the GitHub Actions checkout, the git
+ * repository containing `directory`, or else the working directory.
+ */
+function reportRoot(values: CliValues, directory: string): string {
+  if (values.root) return resolve(values.root);
+  if (process.env.GITHUB_WORKSPACE) return resolve(process.env.GITHUB_WORKSPACE);
+  for (let dir = directory; ; dir = dirname(dir)) {
+    if (existsSync(join(dir, '.git'))) return dir;
+    if (dirname(dir) === dir) return process.cwd();
+  }
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, index) =>
+    Math.max(header.length, ...rows.map((row) => row[index].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, index) => cell.padEnd(widths[index]))
+      .join('  ')
+      .trimEnd();
+  return [line(headers), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join(
+    '\n'
+  );
+}
+
+function printTable(headers: string[], rows: string[][], empty: string) {
+  console.log(rows.length > 0 ? formatTable(headers, rows) : empty);
+}
+
+/**
+ * Run a subcommand against `analyzer` and return the process exit code. Results go to stdout
+ * and errors to stderr.
+ */
+export async function runCli(
+  analyzer: JSXPropAnalyzer,
+  command: CliCommand,
+  args: string[]
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+    if (values.help) {
+      console.log(CLI_USAGE);
+      return 0;
+    }
+    const maxFindings = Number(values['max-findings']);
+    if (!Number.isInteger(maxFindings) || maxFindings < 0) {
+      throw new Error(`Invalid --max-findings: ${values['max-findings']}`);
+    }
+    const auditCommand = command === 'missing' || command === 'audit';
+    const format = oneOf<ReportFormat | 'table'>(
+      'format',
+      values.format,
+      auditCommand ? ['table', ...REPORT_FORMATS] : ['table', 'json']
+    );
+
+    const findings = await runCommand(analyzer, command, positionals, values, format);
+    if (findings > maxFindings) {
+      const noun = findings === 1 ? 'finding exceeds' : 'findings exceed';
+      console.error(`${findings} ${noun} the allowed maximum of ${maxFindings}`);
+      return EXIT_FINDINGS;
+    }
+    return 0;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_ERROR;
+  }
+}
+
+/**
+ * Print a command's result and return the number of findings counted against the threshold.
+ */
+async function runCommand(
+  analyzer: JSXPropAnalyzer,
+  command: CliCommand,
+  positionals: string[],
+  values: CliValues,
+  format: ReportFormat | 'table'
+): Promise<number> {
+  const directory = resolve(values.dir);
+  const required = (index: number, name: string) => {
+    const value = positionals[index];
+    if (!value) throw new Error(`Missing <${name}> argument for ${command}`);
+    return value;
+  };
+
+  if (command === 'analyze') {
+    const result = await analyzer.analyzeProps(
+      resolve(positionals[0] ?? '.'),
+      values.component,
+      values.prop,
+      !values['no-types']
+    );
+    if (format === 'json') {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printTable(
+        ['Location', 'Component', 'Prop', 'Value'],
+        result.propUsages.map((usage) => [
+          location(usage),
+          usage.componentName,
+          usage.propName,
+          usage.value ?? '',
+        ]),
+        'No prop usages found'
+      );
+      const { totalFiles, totalComponents, totalProps } = result.summary;
+      console.log(`\n${totalFiles} files, ${totalComponents} components, ${totalProps} props`);
+    }
+    return 0;
+  }
+
+  if (command === 'usage') {
+    const usages = await analyzer.findPropUsage(required(0, 'prop'), directory, values.component);
+    if (format === 'json') {
+      console.log(JSON.stringify(usages, null, 2));
+    } else {
+      printTable(
+        ['Location', 'Component', 'Value'],
+        usages.map((usage) => [location(usage), usage.componentName, usage.value ?? '']),
+        'No usages found'
+      );
+    }
+    return 0;
+  }
+
+  if (command === 'component') {
+    const components = await analyzer.getComponentProps(required(0, 'name'), directory);
+    if (format === 'json') {
+      console.log(JSON.stringify(components, null, 2));
+      return 0;
+    }
+    if (components.length === 0) console.log('No matching components found');
+    for (const component of components) {
+      const callSites = component.callSites?.length ?? 0;
+      console.log(
+        `${component.componentName} (${relative(process.cwd(), component.file) || component.file}, ${callSites} call sites)`
+      );
+      const rows = component.propDefinitions
+        ? component.propDefinitions.map((prop) => [
+            prop.name,
+            prop.type,
+            prop.optional || prop.defaultValue !== undefined ? '' : 'yes',
+            prop.defaultValue ?? '',
+          ])
+        : component.props.map((prop) => [
+            prop.propName,
+            prop.type ?? '',
+            '',
+            prop.defaultValue ?? '',
+          ]);
+      printTable(['Prop', 'Type', 'Required', 'Default'], rows, 'No props declared');
+      console.log('');
+    }
+    return 0;
+  }
+
+  if (command === 'missing') {
+    const spreadPolicy = oneOf('--spread-policy', values['spread-policy'], SPREAD_POLICIES);
+    const result = await analyzer.findComponentsWithoutProp(
+      required(0, 'component'),
+      positionals[1] ?? values.prop,
+      directory,
+      { spreadPolicy }
+    );
+    if (format === 'json') {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (format !== 'table') {
+      const root = reportRoot(values, directory);
+      process.stdout.write(formatReport(missingPropReport(result, root), format));
+    } else {
+      printTable(
+        ['Location', 'Component', 'Missing', 'Existing'],
+        [...result.missingPropUsages, ...result.uncertainUsages].map((usage) => [
+          location(usage),
+          usage.componentName,
+          usage.missingProps.join(', ') + (usage.unresolvedSpreads ? ' (uncertain)' : ''),
+          usage.existingProps.join(', '),
+        ]),
+        'No usages with missing props found'
+      );
+      const { totalInstances, missingPropCount, uncertainCount } = result.summary;
+      console.log(
+        `\n${missingPropCount} of ${totalInstances} usages missing props, ${uncertainCount} uncertain`
+      );
+    }
+    return result.summary.missingPropCount;
+  }
+
+  const configFile = values.config ? resolve(values.config) : findProjectConfig(directory);
+  if (!configFile) {
+    throw new Error(
+      `No config file found in ${directory} (looked for ${CONFIG_FILE_NAMES.join(', ')})`
+    );
+  }
+  const failOn = oneOf('--fail-on', values['fail-on'], SEVERITIES);
+  const config = await loadProjectConfig(configFile, { allowModules: true });
+  const result = await analyzer.auditProject(config.rules, directory, {
+    spreadPolicy: config.spreadPolicy,
+  });
+  if (format === 'json') {
+    console.log(JSON.stringify({ configFile, ...result }, null, 2));
+  } else if (format !== 'table') {
+    process.stdout.write(formatReport(auditReport(result, reportRoot(values, directory)), format));
+  } else {
+    printTable(
+      ['Location', 'Severity', 'Rule', 'Message'],
+      result.rules.flatMap((rule) =>
+        rule.findings.map((finding) => [location(finding), rule.severity, rule.id, finding.message])
+      ),
+      'No findings'
+    );
+    const { totalFindings, errors, warnings, infos } = result.summary;
+    console.log(
+      `\n${totalFindings} findings (${errors} errors, ${warnings} warnings, ${infos} info)`
+    );
+  }
+  // Severities are ordered from most to least severe
+  const counted = SEVERITIES.slice(0, SEVERITIES.indexOf(failOn) + 1);
+  return result.rules
+    .filter((rule) => counted.includes(rule.severity))
+    .reduce((sum, rule) => sum + rule.findings.length, 0);
+}
@@ -0,0 +1,123 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import type { AuditRule, SpreadPolicy } from '../jsx-analyzer.js';
+
+/** Config files looked up in the project root, in order of precedence */
+export const CONFIG_FILE_NAMES = [
+  '.jsxproprc.json',
+  'jsx-prop-lookup.config.ts',
+  'jsx-prop-lookup.config.mjs',
+  'jsx-prop-lookup.config.js',
+];
+
+export const propRuleConditionSchema = z.strictObject({
+  hasProps: z
+    .array(z.string())
+    .optional()
+    .describe('Props that must be passed, with any value (e.g., ["aria-hidden"])'),
+  propValues: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe(
+      'Props that must be passed with these constant values (e.g., { "target": "_blank" }); a bare attribute passes true'
+    ),
+  inside: z
+    .string()
+    .optional()
+    .describe(
+      'Element or component the usage must be nested in within the same JSX tree (e.g., "form")'
+    ),
+});
+
+const ruleBase = {
+  id: z.string().optional(),
+  component: z.string(),
+  prop: z.string(),
+  when: propRuleConditionSchema.optional(),
+  unless: propRuleConditionSchema.optional(),
+  severity: z.enum(['error', 'warning', 'info']).optional(),
+  message: z.string().optional(),
+};
+
+const auditRuleSchema = z.discriminatedUnion('type', [
+  z.strictObject({ type: z.literal('required-prop'), ...ruleBase }),
+  z.strictObject({ type: z.literal('forbidden-prop'), ...ruleBase }),
+  z.strictObject({
+    type: z.literal('allowed-values'),
+    ...ruleBase,
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1),
+  }),
+]);
+
+const projectConfigSchema = z.strictObject({
+  $schema: z.string().optional(),
+  spreadPolicy: z.enum(['assumePresent', 'assumeMissing', 'report']).optional(),
+  rules: z.array(auditRuleSchema),
+});
+
+export interface LoadProjectConfigOptions {
+  /**
+   * Import JavaScript and TypeScript configs. Importing runs the module's code, so only the
+   * CLI does; configs named by MCP clients must be JSON.
+   */
+  allowModules?: boolean;
+}
+
+export interface ProjectConfig {
+  /** Treatment of unresolvable spreads by required-prop rules (default: 'report') */
+  spreadPolicy?: SpreadPolicy;
+  rules: AuditRule[];
+}
+
+/**
+ * Find the config file in a project root, or undefined when there is none.
+ */
+export function findProjectConfig(root: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(root, name)).find((file) => existsSync(file));
+}
+
+/**
+ * Load and validate a project config: `.jsxproprc.json`, or with `allowModules`, a module
+ * whose default export is the config. TypeScript configs need a runtime that can import `.ts`
+ * files (Node 22.6+ with type stripping, or tsx).
+ */
+export async function loadProjectConfig(
+  file: string,
+  options: LoadProjectConfigOptions = {}
+): Promise<ProjectConfig> {
+  let raw: unknown;
+  if (extname(file) === '.json') {
+    try {
+      raw = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new Error(`Cannot read ${file}: ${err.message}`);
+    }
+  } else if (!options.allowModules) {
+    throw new Error(
+      `Cannot load ${basename(file)}: JavaScript and TypeScript configs run their code when loaded, so only the jsx-prop-lookup CLI loads them; use a JSON config such as .jsxproprc.json`
+    );
+  } else {
+    try {
+      raw = ((await import(pathToFileURL(file).href)) as { default?: unknown }).default;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+        throw new Error(
+          `Cannot load ${basename(file)}: this Node.js version cannot import TypeScript; use .jsxproprc.json or jsx-prop-lookup.config.js`
+        );
+      }
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new Error(`Cannot load ${file}: ${err.message}`);
+    }
+  }
+
+  const parsed = projectConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config ${file}:\n${z.prettifyError(parsed.error)}`);
+  }
+  const { spreadPolicy, rules } = parsed.data;
+  return { spreadPolicy, rules };
+}
@@ -7,39 +7,54 @@ if (Number.isNaN(nodeMajorVersion) || nodeMajorVersion < 18) {
   process.exit(1);
 }
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { JSXPropAnalyzer } from './jsx-analyzer.js';
+import { CLI_USAGE, isCliCommand, runCli } from './cli.js';
+import { McpHttpServer, isLoopbackHost } from './services/http-server.js';
+import { defaultCacheDirectory } from './services/analysis-cache.js';
+import {
+  CONFIG_FILE_NAMES,
+  findProjectConfig,
+  loadProjectConfig,
+  propRuleConditionSchema,
+} from './config/project-config.js';
+import {
+  REPORT_FORMATS,
+  auditReport,
+  formatReport,
+  missingPropReport,
+  propRulesReport,
+  unknownPropsReport,
+} from './utils/report-formats.js';
+import type { Report, ReportFormat } from './utils/report-formats.js';
+import {
+  RESPONSE_FORMATS,
+  analysisPager,
+  auditPager,
+  componentPropsPager,
+  missingPropPager,
+  propRulesPager,
+  propUsagesPager,
+  propValueStatsPager,
+  renamePager,
+  renderPage,
+  renderResult,
+  unknownPropsPager,
+  unusedPropsPager,
+} from './utils/tool-response.js';
+import type { ResponseFormat, ResultPager } from './utils/tool-response.js';
 import * as path from 'path';
 import * as fs from 'fs';
 
 // Tool argument interfaces are intentionally omitted — tool input validation is handled by `zod` schemas
 
-const server = new McpServer(
-  {
-    name: 'jsx-prop-lookup-server',
-    version: '1.0.0',
-    description: `MCP server for analyzing JSX/React component props and usage patterns.
-
-This server helps you understand, audit, and refactor React/JSX codebases by providing
-tools to analyze component props, find prop usages, and ensure prop requirements.
-
-Capabilities:
-- Analyze component prop usage across files
-- Find specific prop usages (e.g., all onClick handlers)
-- Audit components for missing required props
-- Get component API documentation
-- Support TypeScript and JavaScript projects`},
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-const analyzer = new JSXPropAnalyzer();
-
 // Configuration: limit allowed filesystem roots via `ALLOWED_ROOTS` env var
 // or a CLI flag `--allowed-roots`.
 // Provide a comma-separated list of absolute or workspace-relative paths.
@@ -63,6 +78,89 @@ const allowedRoots = allowedRootsEnv
   .filter(Boolean)
   .map((p) => path.resolve(process.cwd(), p));
 
+// Project-specific HOCs (e.g. `withAnalytics`) to unwrap when locating component
+// definitions, via `CUSTOM_HOCS` env var or `--custom-hocs`, comma-separated.
+const customHocs = (parseCliArg('custom-hocs') ?? process.env.CUSTOM_HOCS ?? '')
+  .split(',')
+  .map((s) => s.trim())
+  .filter(Boolean);
+
+// Per-file analysis results are cached on disk so repeated questions about an unchanged tree
+// skip re-parsing. Override the location with `CACHE_DIR` or `--cache-dir`; `--no-cache` disables it.
+const cacheDir = process.argv.includes('--no-cache')
+  ? undefined
+  : path.resolve(
+      parseCliArg('cache-dir') ?? process.env.CACHE_DIR ?? defaultCacheDirectory()
+    );
+
+// Worker threads used to parse files in parallel, via `WORKERS` env var or `--workers`.
+// Defaults to one less than the CPU count; 0 analyzes on the main thread.
+const workersArg = parseCliArg('workers') ?? process.env.WORKERS;
+const workers = workersArg !== undefined && workersArg !== '' ? Number(workersArg) : undefined;
+if (workers !== undefined && (!Number.isInteger(workers) || workers < 0)) {
+  console.error(`Invalid worker count: ${workersArg}`);
+  process.exit(1);
+}
+
+const analyzer = new JSXPropAnalyzer({ customHocs, cacheDir, workers });
+
+// Characters a tool response may take before it is cut short with a cursor for the rest, via
+// `MAX_RESPONSE_CHARS` env var or `--max-response-chars`; 0 disables the limit.
+const maxCharsArg = parseCliArg('max-response-chars') ?? process.env.MAX_RESPONSE_CHARS;
+const maxResponseChars =
+  maxCharsArg !== undefined && maxCharsArg !== '' ? Number(maxCharsArg) : 100_000;
+if (!Number.isInteger(maxResponseChars) || maxResponseChars < 0) {
+  console.error(`Invalid response size limit: ${maxCharsArg}`);
+  process.exit(1);
+}
+
+// Transport: stdio by default, or MCP Streamable HTTP with `--transport=http`, listening on
+// `--port` (default 3000) at `--host` (default 127.0.0.1). When `MCP_AUTH_TOKEN` is set, HTTP
+// requests must present it as a bearer token; it is read from the environment only, so it
+// does not show up in process listings. HTTP sessions idle for `--session-idle-timeout`
+// seconds (default 1800, 0 to disable) are closed.
+const transportMode = parseCliArg('transport') ?? 'stdio';
+if (transportMode !== 'stdio' && transportMode !== 'http') {
+  console.error(`Invalid transport: ${transportMode} (expected stdio or http)`);
+  process.exit(1);
+}
+const httpHost = parseCliArg('host') ?? '127.0.0.1';
+const portArg = parseCliArg('port') ?? '3000';
+const httpPort = Number(portArg);
+if (!Number.isInteger(httpPort) || httpPort < 0 || httpPort > 65535) {
+  console.error(`Invalid port: ${portArg}`);
+  process.exit(1);
+}
+const idleTimeoutArg =
+  parseCliArg('session-idle-timeout') ?? (process.env.SESSION_IDLE_TIMEOUT || '1800');
+const sessionIdleTimeout = Number(idleTimeoutArg);
+if (!Number.isFinite(sessionIdleTimeout) || sessionIdleTimeout < 0) {
+  console.error(`Invalid session idle timeout: ${idleTimeoutArg}`);
+  process.exit(1);
+}
+const authToken = process.env.MCP_AUTH_TOKEN || undefined;
+
+// Whether an absolute path lies within one of the configured allowed roots, after resolving symlinks
+const isWithinAllowedRoots = (abs: string): boolean => {
+  let realAbs: string;
+  try {
+    realAbs = fs.realpathSync(abs);
+  } catch (err) {
+    // If realpath fails, fall back to the resolved absolute path
+    realAbs = abs;
+  }
+
+  return allowedRoots.some((root) => {
+    try {
+      const realRoot = fs.realpathSync(root);
+      const rel = path.relative(realRoot, realAbs);
+      return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+    } catch (_e) {
+      return false;
+    }
+  });
+};
+
 // Helper function for path validation
 const resolveAndValidatePath = (input: string, label: string): string => {
   if (typeof input !== 'string' || input.length === 0) {
@@ -81,28 +179,8 @@ const resolveAndValidatePath = (input: string, label: string): string => {
   }
 
   // If allowedRoots is configured, ensure the target path is within one of them.
-  if (allowedRoots.length > 0) {
-    let realAbs: string;
-    try {
-      realAbs = fs.realpathSync(abs);
-    } catch (err) {
-      // If realpath fails, fall back to the resolved absolute path
-      realAbs = abs;
-    }
-
-    const isWithinAllowed = allowedRoots.some((root) => {
-      try {
-        const realRoot = fs.realpathSync(root);
-        const rel = path.relative(realRoot, realAbs);
-        return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
-      } catch (_e) {
-        return false;
-      }
-    });
-
-    if (!isWithinAllowed) {
-      throw new Error(`Access to path outside allowed roots: ${abs}`);
-    }
+  if (allowedRoots.length > 0 && !isWithinAllowedRoots(abs)) {
+    throw new Error(`Access to path outside allowed roots: ${abs}`);
   }
   return abs;
 };
@@ -139,10 +217,176 @@ const formatToolResponse = (result: unknown, error?: Error) => {
   };
 };
 
-// Register tools using server.tool() with detailed descriptions for LLM understanding
-server.tool(
-  'analyze_jsx_props',
-  `Analyze JSX/React component prop usage across files and directories.
+// Results are returned a page at a time: from `cursor`, up to `limit` items, and no more than
+// fit the response size limit. When the page is not the whole result, a second text block
+// says which items it holds and gives the cursor for the next page. Audit-style results can
+// also be rendered as a report, with file paths relative to the searched directory.
+const formatPagedResponse = <T>(
+  result: T,
+  pager: ResultPager<T>,
+  options: { format: ResponseFormat | ReportFormat; limit?: number; cursor?: string },
+  absPath: string,
+  toReport?: (result: T, root: string) => Report
+) => {
+  const { format, limit, cursor } = options;
+  const root = fs.statSync(absPath).isDirectory() ? absPath : path.dirname(absPath);
+  const render = (page: T) => {
+    if (format === 'json') return renderResult(page, pager, 'full', root);
+    if (format === 'full' || format === 'compact' || format === 'minimal') {
+      return renderResult(page, pager, format, root);
+    }
+    if (!toReport) throw new Error(`Unsupported format: ${format}`);
+    return formatReport(toReport(page, root), format);
+  };
+  const { text, note } = renderPage(result, pager, render, {
+    limit,
+    cursor,
+    maxChars: maxResponseChars,
+  });
+  return {
+    content: [
+      { type: 'text' as const, text },
+      ...(note ? [{ type: 'text' as const, text: note }] : []),
+    ],
+  };
+};
+
+// Options every tool takes for the size and shape of its response
+const pageParams = {
+  limit: z.number().int().positive().optional().describe('Maximum number of items (usages, components, findings, ...) to return; when more remain, the response ends with a cursor for the next page'),
+  cursor: z.string().optional().describe('Cursor from the previous response, to continue where it stopped; pass the same query arguments'),
+};
+const responseFormatParam = z.enum(RESPONSE_FORMATS).default('full').describe('Response format: "full" (default) returns the indented result object; "compact" the same object on one line with file paths relative to the searched directory; "minimal" a summary line and one line of text per item');
+const reportFormatParam = z.enum([...RESPONSE_FORMATS, ...REPORT_FORMATS]).default('full').describe('Output format: "full" (default; also "json") returns the indented result object; "compact" the same object on one line with file paths relative to directory; "minimal" a summary line and one line per finding; "sarif" (SARIF 2.1.0), "junit" (JUnit XML) and "github-annotations" (GitHub Actions workflow commands) render the findings with file paths relative to directory');
+
+// Resources: the component catalog, each component's API and the analysis of a single file,
+// read from the allowed roots (or the working directory). Watch mode (`--watch`) indexes the
+// roots on startup, keeps the index current as files change, and notifies subscribed clients.
+const watchMode = process.argv.includes('--watch');
+const catalogRoots = allowedRoots.length > 0 ? allowedRoots : [process.cwd()];
+const COMPONENT_INDEX_URI = 'jsx-components://index';
+const COMPONENT_URI_PREFIX = 'jsx-component://';
+const FILE_URI_PREFIX = 'jsx-file://';
+/** Servers connected to a client in watch mode, with the resource URIs the client subscribed to */
+const watchingServers = new Map<McpServer, Set<string>>();
+
+const buildComponentCatalog = async () => {
+  const catalog = [];
+  for (const root of catalogRoots) {
+    const result = await analyzer.analyzeProps(root);
+    for (const component of result.components) {
+      catalog.push({
+        componentName: component.componentName,
+        file: component.file,
+        propsInterface: component.propsInterface,
+        props: Array.from(new Set(component.props.map((prop) => prop.propName))),
+      });
+    }
+  }
+  return catalog;
+};
+
+// Declarations of a component with their props and how many call sites pass each prop
+const buildComponentDetails = async (componentName: string, roots = catalogRoots) => {
+  const declarations = [];
+  for (const root of roots) {
+    for (const component of await analyzer.getComponentProps(componentName, root)) {
+      const callSites = component.callSites ?? [];
+      const passed: Record<string, number> = {};
+      for (const prop of callSites.flatMap((site) => site.props)) {
+        passed[prop] = (passed[prop] ?? 0) + 1;
+      }
+      declarations.push({
+        componentName: component.componentName,
+        file: component.file,
+        propsInterface: component.propsInterface,
+        wrappers: component.wrappers,
+        wrappedComponent: component.wrappedComponent,
+        props:
+          component.propDefinitions ??
+          component.props.map(({ propName, type, defaultValue }) => ({
+            name: propName,
+            type,
+            defaultValue,
+          })),
+        unresolvedPropTypes: component.unresolvedPropTypes,
+        usage: {
+          callSites: callSites.length,
+          withChildren: callSites.filter((site) => site.hasChildren).length,
+          props: passed,
+        },
+      });
+    }
+  }
+  if (declarations.length === 0) {
+    throw new Error(`Component not found: ${componentName}`);
+  }
+  return declarations;
+};
+
+const componentUri = (componentName: string) =>
+  `${COMPONENT_URI_PREFIX}${encodeURIComponent(componentName)}`;
+
+// Template variables arrive percent-encoded, as written in the URI
+const templateVariable = (value: string | string[]) =>
+  decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+
+const componentNames = async () =>
+  Array.from(new Set((await buildComponentCatalog()).map((c) => c.componentName))).sort();
+
+// Prompts: workflows that run the analyses they need and hand the results to the assistant in
+// one message, with instructions. Each result is a section in the minimal format; sections
+// share the response size limit.
+const PROMPT_SECTIONS = 3;
+
+const promptSection = <T>(title: string, result: T, pager: ResultPager<T>, root: string) => {
+  const { text, note } = renderPage(
+    result,
+    pager,
+    (page) => renderResult(page, pager, 'minimal', root),
+    { maxChars: Math.floor(maxResponseChars / PROMPT_SECTIONS) }
+  );
+  return [`## ${title}`, '', text, ...(note ? ['', note] : [])].join('\n');
+};
+
+const promptMessage = (text: string) => ({
+  messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+});
+
+const componentArgument = (description: string) =>
+  completable(z.string().describe(description), async (value) =>
+    (await componentNames()).filter((name) => name.startsWith(value ?? ''))
+  );
+
+// Every client connection gets its own server: one for stdio, and one per session over HTTP.
+// Tools and resources are registered on each, and all share the analyzer and path checks.
+const createServer = (): McpServer => {
+  const server = new McpServer(
+    {
+      name: 'jsx-prop-lookup-server',
+      version: '1.0.0',
+      description: `MCP server for analyzing JSX/React component props and usage patterns.
+
+This server helps you understand, audit, and refactor React/JSX codebases by providing
+tools to analyze component props, find prop usages, and ensure prop requirements.
+
+Capabilities:
+- Analyze component prop usage across files
+- Find specific prop usages (e.g., all onClick handlers)
+- Audit components for missing required props
+- Get component API documentation
+- Support TypeScript and JavaScript projects`},
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  // Register tools using server.tool() with detailed descriptions for LLM understanding
+  server.tool(
+    'analyze_jsx_props',
+    `Analyze JSX/React component prop usage across files and directories.
 
 Use this tool when you need to:
 - Understand what props a component accepts
@@ -168,28 +412,32 @@ EXAMPLES:
 
 Returns:
 - Component names and their props
-- Prop types (when includeTypes is true)
+- Prop types (when includeTypes is true): propsInterface plus propDefinitions, one entry per
+  member with its printed type, optional/readonly flags and JSDoc description, including
+  members inherited via extends clauses and intersections (same file or imported)
 - File locations where components are defined`,
-  {
-    path: z.string().default('.').describe('Absolute or relative path to file or directory to analyze (e.g., "src/components" or "src/App.tsx", defaults to current directory)'),
-    componentName: z.string().optional().describe('Filter: analyze only this specific component name (e.g., "Button")'),
-    propName: z.string().optional().describe('Filter: search only for this specific prop name (e.g., "onClick")'),
-    includeTypes: z.boolean().default(true).describe('Include TypeScript type information in results'),
-  },
-  async ({ path, componentName, propName, includeTypes }) => {
-    try {
-      const absPath = resolveAndValidatePath(path, 'path');
-      const result = await analyzer.analyzeProps(absPath, componentName, propName, includeTypes);
-      return formatToolResponse(result);
-    } catch (error) {
-      return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+    {
+      path: z.string().default('.').describe('Absolute or relative path to file or directory to analyze (e.g., "src/components" or "src/App.tsx", defaults to current directory)'),
+      componentName: z.string().optional().describe('Filter: analyze only this specific component name (e.g., "Button", or "@acme/ui#Button" to match only components imported from that module)'),
+      propName: z.string().optional().describe('Filter: search only for this specific prop name (e.g., "onClick")'),
+      includeTypes: z.boolean().default(true).describe('Include TypeScript type information in results (props interface name and its expanded members)'),
+      ...pageParams,
+      format: responseFormatParam,
+    },
+    async ({ path, componentName, propName, includeTypes, ...page }) => {
+      try {
+        const absPath = resolveAndValidatePath(path, 'path');
+        const result = await analyzer.analyzeProps(absPath, componentName, propName, includeTypes);
+        return formatPagedResponse(result, analysisPager, page, absPath);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  'find_prop_usage',
-  `Find all usages of a specific prop across JSX/React files.
+  server.tool(
+    'find_prop_usage',
+    `Find all usages of a specific prop across JSX/React files.
 
 Use this tool when you need to:
 - Locate where a prop is used throughout the codebase
@@ -207,32 +455,39 @@ EXAMPLES:
 3. Find variant prop only on Button components in current directory:
    { "propName": "variant", "componentName": "Button" }
 
-4. Find all disabled props in specific directory:
+4. Find variant prop only on Button imported from the design system:
+   { "propName": "variant", "componentName": "@acme/ui#Button" }
+
+5. Find all disabled props in specific directory:
    { "propName": "disabled", "directory": "src/forms" }
 
 Returns:
 - List of component instances using the prop
 - File paths and line numbers
-- Values passed to the prop`,
-  {
-    propName: z.string().describe('Name of the prop to search for (e.g., "onClick", "className", "variant")'),
-    directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
-    componentName: z.string().optional().describe('Filter: only search within this component name (e.g., "Button")'),
-  },
-  async ({ propName, directory, componentName }) => {
-    try {
-      const absDir = resolveAndValidatePath(directory, 'directory');
-      const result = await analyzer.findPropUsage(propName, absDir, componentName);
-      return formatToolResponse(result);
-    } catch (error) {
-      return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+- Values passed to the prop
+- Import source and original exported name for imported components
+- definitionFile: the file declaring the rendered component, when it can be resolved`,
+    {
+      propName: z.string().describe('Name of the prop to search for (e.g., "onClick", "className", "variant")'),
+      directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
+      componentName: z.string().optional().describe('Filter: only search within this component name (e.g., "Button", or "@acme/ui#Button" to match only components imported from that module)'),
+      ...pageParams,
+      format: responseFormatParam,
+    },
+    async ({ propName, directory, componentName, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        const result = await analyzer.findPropUsage(propName, absDir, componentName);
+        return formatPagedResponse(result, propUsagesPager, page, absDir);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  'get_component_props',
-  `Get detailed information about all props used by a specific component.
+  server.tool(
+    'get_component_props',
+    `Get detailed information about all props used by a specific component.
 
 Use this tool when you need to:
 - Understand what props a component accepts and uses
@@ -255,26 +510,30 @@ EXAMPLES:
 
 Returns:
 - All props used by the component
-- Prop types and default values
-- Usage statistics across the codebase`,
-  {
-    componentName: z.string().describe('Name of the component to analyze (e.g., "Button", "Modal", "Card")'),
-    directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
-  },
-  async ({ componentName, directory }) => {
-    try {
-      const absDir = resolveAndValidatePath(directory, 'directory');
-      const result = await analyzer.getComponentProps(componentName, absDir);
-      return formatToolResponse(result);
-    } catch (error) {
-      return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+- Prop types and default values (destructuring defaults and defaultProps)
+- Call sites: every JSX element in the directory that resolves to this declaration
+  (following relative imports, tsconfig "paths" aliases and barrel re-exports),
+  so same-named components in different folders are reported separately`,
+    {
+      componentName: z.string().describe('Name of the component to analyze (e.g., "Button", "Modal", "Card"); use "./components/Button#Button" to pick the definition in a specific file'),
+      directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
+      ...pageParams,
+      format: responseFormatParam,
+    },
+    async ({ componentName, directory, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        const result = await analyzer.getComponentProps(componentName, absDir);
+        return formatPagedResponse(result, componentPropsPager, page, absDir);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  'find_components_without_prop',
-  `Find component instances that are missing a required prop (e.g., Select components without width prop).
+  server.tool(
+    'find_components_without_prop',
+    `Find component instances that are missing a required prop (e.g., Select components without width prop).
 
 Use this tool when you need to:
 - Audit components for missing required props
@@ -296,26 +555,655 @@ EXAMPLES:
 4. Check Input components for missing label in forms directory:
    { "componentName": "Input", "requiredProp": "aria-label", "directory": "src/forms" }
 
+5. Check Select usages against every prop its definition requires (propTypes isRequired or non-optional type members):
+   { "componentName": "Select" }
+
+6. Preview inserting type="button" into every Button missing it:
+   { "componentName": "Button", "requiredProp": "type", "fix": { "defaultValue": "'button'" } }
+
+7. Insert width={200} into every Select missing it and write the files:
+   { "componentName": "Select", "requiredProp": "width", "fix": { "defaultValue": "200" }, "apply": true }
+
+8. Treat every {...props} spread as not providing alt:
+   { "componentName": "img", "requiredProp": "alt", "spreadPolicy": "assumeMissing" }
+
+Spreads of inline object literals ({...{ alt: '' }}) and of same-file const objects count as
+passing their keys. Other spreads are handled per spreadPolicy: "report" (default) lists
+those usages in uncertainUsages with their unresolvedSpreads, "assumePresent" treats them
+as passing every prop, and "assumeMissing" ignores them.
+
 Returns:
-- List of component instances missing the required prop
+- List of component instances missing the required prop(s)
 - File paths and line numbers
-- Existing props on those instances
-- Summary statistics (total instances vs missing count)`,
+- Existing and missing props on those instances
+- uncertainUsages: instances that may be missing props, depending on unresolvable spreads
+- Summary statistics (total instances vs missing count, uncertain count)
+- With fix: a unified diff per changed file, and whether the fixes were applied. Files are
+  written only with "apply": true, and only when every changed file is inside the allowed
+  roots (--allowed-roots / ALLOWED_ROOTS must be configured)
+- With format "sarif", "junit" or "github-annotations": the missing and uncertain usages
+  rendered in that format instead (uncertain usages as notes)`,
+    {
+      componentName: z.string().describe('Name of the component to check (e.g., "Select", "Button", "Image", or "@acme/ui#Button" to check only components imported from that module)'),
+      requiredProp: z.string().optional().describe('Name of the required prop that should be present (e.g., "width", "alt", "aria-label"). When omitted, checks the props the component definition marks as required via propTypes `isRequired` or non-optional type members, excluding props with defaults'),
+      directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
+      spreadPolicy: z.enum(['assumePresent', 'assumeMissing', 'report']).default('report').describe('How to treat spreads whose keys cannot be resolved: "report" lists the usages as uncertain, "assumePresent" treats them as passing every prop, "assumeMissing" ignores them'),
+      fix: z
+        .object({
+          defaultValue: z.string().describe('JavaScript expression to pass for the missing prop (e.g., "\'button\'" inserts type="button", "200" inserts width={200})'),
+        })
+        .optional()
+        .describe('Insert the missing requiredProp into each flagged element; requires requiredProp'),
+      apply: z.boolean().default(false).describe('Write the fixes to disk instead of only returning diffs (default: false)'),
+      ...pageParams,
+      format: reportFormatParam,
+    },
+    async ({ componentName, requiredProp, directory, spreadPolicy, fix, apply, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        if (fix && apply && allowedRoots.length === 0) {
+          throw new Error(
+            'Writing files requires --allowed-roots (env: ALLOWED_ROOTS) to be configured'
+          );
+        }
+        const result = await analyzer.findComponentsWithoutProp(componentName, requiredProp, absDir, {
+          spreadPolicy,
+          fix,
+          apply,
+          canWrite: isWithinAllowedRoots,
+        });
+        return formatPagedResponse(result, missingPropPager, page, absDir, missingPropReport);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  );
+
+  server.tool(
+    'find_unused_props',
+    `Find props that components declare but no call site ever passes.
+
+Use this tool when you need to:
+- Prune dead API surface from a component library
+- Check whether an optional prop is still needed before removing it
+- Find components whose props are never customized by their callers
+
+EXAMPLES:
+1. Find unused props of every component in the current directory:
+   {}
+
+2. Find unused props of Button across the src directory:
+   { "componentName": "Button", "directory": "src" }
+
+3. Check the Card definition in a specific file:
+   { "componentName": "./components/Card#Card" }
+
+Returns:
+- Per component: declaredProps (destructured, read from props, or members of its props
+  type/propTypes), unusedProps, callSiteCount and spreadCallSiteCount
+- uncertain: true when some call sites spread props ({...rest}), which may pass props
+  reported as unused
+- Summary statistics (components checked, components with unused props, total unused props)`,
+    {
+      componentName: z.string().optional().describe('Filter: only check this component (e.g., "Button", or "./components/Button#Button" for the definition in a specific file). Checks every component when omitted'),
+      directory: z.string().default('.').describe('Directory to search for definitions and call sites (defaults to current directory)'),
+      ...pageParams,
+      format: responseFormatParam,
+    },
+    async ({ componentName, directory, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        const result = await analyzer.findUnusedProps(componentName, absDir);
+        return formatPagedResponse(result, unusedPropsPager, page, absDir);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  );
+
+  server.tool(
+    'find_unknown_props',
+    `Find JSX usages passing props that the component does not declare.
+
+Use this tool when you need to:
+- Catch typos in prop names (e.g., <Button colour="red"> when Button declares color)
+- Find leftovers after a prop was removed from a component
+- Check call sites after renaming props
+
+EXAMPLES:
+1. Check every component usage in the current directory:
+   {}
+
+2. Check Button usages in the src directory:
+   { "componentName": "Button", "directory": "src" }
+
+Returns:
+- unknownPropUsages: call sites with unknownProps the component neither destructures, reads
+  from props, nor declares in its props type/propTypes (key and ref are always allowed)
+- forwardedPropUsages: the same for components that collect undeclared props with ...rest
+  and forward them to an underlying element; these are usually intentional (e.g. aria-*)
+- uncertainPropUsages: the same for components whose props type could not be fully expanded
+  (e.g. it extends React.ButtonHTMLAttributes), so the props may be inherited
+- Summary statistics (call sites checked, unknown, forwarded and uncertain prop counts)
+- With format "sarif", "junit" or "github-annotations": the usages rendered in that format
+  instead (unknown props as warnings, forwarded and uncertain ones as notes)`,
+    {
+      componentName: z.string().optional().describe('Filter: only check usages of this component (e.g., "Button", or "./components/Button#Button" for the definition in a specific file). Checks every component when omitted'),
+      directory: z.string().default('.').describe('Directory to search for definitions and call sites (defaults to current directory)'),
+      ...pageParams,
+      format: reportFormatParam,
+    },
+    async ({ componentName, directory, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        const result = await analyzer.findUnknownProps(componentName, absDir);
+        return formatPagedResponse(result, unknownPropsPager, page, absDir, unknownPropsReport);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  );
+
+  server.tool(
+    'get_prop_value_stats',
+    `Summarize the values passed to a prop: how often each value is used and where.
+
+Use this tool when you need to:
+- Decide which variants of a component to keep (e.g., Button variant distribution)
+- Find rarely used values that could be deprecated
+- See how often a prop is set from literals vs computed at runtime
+
+EXAMPLES:
+1. Distribution of variant values on Button in current directory:
+   { "propName": "variant", "componentName": "Button" }
+
+2. Distribution of size values across all components in src:
+   { "propName": "size", "directory": "src" }
+
+Returns:
+- values: one entry per distinct value, most frequent first, with valueKind ("literal" or
+  "dynamic"), count, percentage of all usages and a few example locations. Boolean shorthand
+  (<Button disabled>) counts as the literal "true"; values without a readable form show as "…"
+- Summary statistics (total usages, distinct values, literal and dynamic counts)`,
+    {
+      propName: z.string().describe('Name of the prop whose values to summarize (e.g., "variant", "size")'),
+      directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
+      componentName: z.string().optional().describe('Filter: only count usages on this component (e.g., "Button", or "@acme/ui#Button" to match only components imported from that module)'),
+      ...pageParams,
+      format: responseFormatParam,
+    },
+    async ({ propName, directory, componentName, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        const result = await analyzer.getPropValueStats(propName, absDir, componentName);
+        return formatPagedResponse(result, propValueStatsPager, page, absDir);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  );
+
+  server.tool(
+    'rename_prop',
+    `Rename a prop at every JSX usage of a component, optionally in the component itself.
+
+Use this tool when you need to:
+- Rename a prop across a codebase (e.g., Button "type" -> "variant")
+- Preview the edits of a rename as a unified diff before applying it
+- Rename a prop only on components imported from a specific package
+
+Runs as a dry run by default and returns the diff. Files are written only with
+"dryRun": false, and only when every changed file is inside the allowed roots
+(--allowed-roots / ALLOWED_ROOTS must be configured). Only the renamed tokens change;
+formatting elsewhere is preserved.
+
+EXAMPLES:
+1. Preview renaming Button's "type" prop to "variant" in current directory:
+   { "componentName": "Button", "from": "type", "to": "variant" }
+
+2. Rename on usages and in the Button declaration, writing the files:
+   { "componentName": "Button", "from": "type", "to": "variant", "updateDefinition": true, "dryRun": false }
+
+3. Only rename on Button imported from the design system:
+   { "componentName": "Button", "importSource": "@acme/ui", "from": "kind", "to": "variant" }
+
+Returns:
+- diff: unified diff of all changes (paths relative to the directory)
+- files: per changed file, the number of call sites and definition edits
+- conflicts: usages left unchanged because they pass both the old and the new name
+- warnings: parts needing manual follow-up (e.g., the props interface lives in another file)
+- written: whether files were written`,
+    {
+      componentName: z.string().describe('Name of the component whose prop to rename (e.g., "Button", or "./components/Button#Button" for the definition in a specific file)'),
+      from: z.string().describe('Current prop name (e.g., "type")'),
+      to: z.string().describe('New prop name (e.g., "variant")'),
+      importSource: z.string().optional().describe('Only rename usages of the component imported from this module (e.g., "@acme/ui")'),
+      directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
+      updateDefinition: z.boolean().default(false).describe("Also rename the prop in the component's destructuring (keeping local variable names), props.x reads, defaultProps/propTypes keys and props interface members in the component's file"),
+      dryRun: z.boolean().default(true).describe('Only return the diff without writing files (default: true)'),
+      ...pageParams,
+      format: responseFormatParam,
+    },
+    async ({
+      componentName,
+      from,
+      to,
+      importSource,
+      directory,
+      updateDefinition,
+      dryRun,
+      ...page
+    }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        if (!dryRun && allowedRoots.length === 0) {
+          throw new Error(
+            'Writing files requires --allowed-roots (env: ALLOWED_ROOTS) to be configured'
+          );
+        }
+        const result = await analyzer.renameProp(componentName, from, to, absDir, {
+          importSource,
+          updateDefinition,
+          write: !dryRun,
+          canWrite: isWithinAllowedRoots,
+        });
+        return formatPagedResponse(result, renamePager, page, absDir);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  );
+
+  server.tool(
+    'check_prop_rules',
+    `Check component usages against conditional prop requirements.
+
+Use this tool when you need to:
+- Require a prop only in some contexts (e.g., Button needs "type" when inside a <form>)
+- Require a prop depending on another prop's value (e.g., Link needs "rel" when target="_blank")
+- Require a prop unless another is set (e.g., Icon needs "aria-label" unless "aria-hidden" is set)
+- Evaluate a whole set of such rules in one pass
+
+Each rule names a component, the requiredProp, and optional "when" and "unless" conditions.
+A rule applies to a usage when every part of "when" holds and "unless" does not. Conditions
+can check that props are passed (hasProps), that props have constant values (propValues), and
+that the usage is nested in an element (inside). Dynamic values never match propValues.
+
+EXAMPLES:
+1. Button needs type inside forms, Link needs rel with target="_blank":
+   { "rules": [
+     { "component": "Button", "requiredProp": "type", "when": { "inside": "form" } },
+     { "component": "Link", "requiredProp": "rel", "when": { "propValues": { "target": "_blank" } } }
+   ] }
+
+2. Icon needs aria-label unless aria-hidden is set, in the src directory:
+   { "rules": [{ "id": "icon-label", "component": "Icon", "requiredProp": "aria-label", "unless": { "hasProps": ["aria-hidden"] } }], "directory": "src" }
+
+Spreads are handled as in find_components_without_prop (see spreadPolicy).
+
+Returns:
+- violations: usages breaking a rule, with the ruleId, file, line and existing props
+- uncertainViolations: usages that may break a rule, depending on unresolvable spreads
+- summary: per rule, the usages it applied to and its violation counts
+- With format "sarif", "junit" or "github-annotations": the violations rendered in that
+  format instead (uncertain ones as notes)`,
+    {
+      rules: z
+        .array(
+          z.object({
+            id: z.string().optional().describe('Name reported with violations (defaults to "<component>:<requiredProp>")'),
+            component: z.string().describe('Component the rule applies to (e.g., "Link", or "@acme/ui#Link")'),
+            requiredProp: z.string().describe('Prop the usage must pass when the rule applies'),
+            when: propRuleConditionSchema.optional().describe('The rule only applies to usages matching this condition'),
+            unless: propRuleConditionSchema.optional().describe('The rule does not apply to usages matching this condition'),
+            message: z.string().optional().describe('Explanation reported with violations'),
+          })
+        )
+        .min(1)
+        .describe('Rules to evaluate'),
+      directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
+      spreadPolicy: z.enum(['assumePresent', 'assumeMissing', 'report']).default('report').describe('How to treat spreads whose keys cannot be resolved: "report" lists the usages as uncertain, "assumePresent" treats them as passing every prop, "assumeMissing" ignores them'),
+      ...pageParams,
+      format: reportFormatParam,
+    },
+    async ({ rules, directory, spreadPolicy, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        const result = await analyzer.checkPropRules(rules, absDir, { spreadPolicy });
+        return formatPagedResponse(result, propRulesPager, page, absDir, propRulesReport);
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  );
+
+  server.tool(
+    'audit_project',
+    `Run every rule of the project's config file in one pass and return the findings grouped by rule.
+
+Use this tool when you need to:
+- Audit a project against its agreed prop conventions in one call
+- Get reproducible results from rules kept under version control
+- Check required props, forbidden props and allowed prop values together
+
+The config is read from the project root: ${CONFIG_FILE_NAMES.join(', ')} (first found),
+or from configPath. Only JSON configs are loaded here, since loading a JavaScript or
+TypeScript config runs its code; the jsx-prop-lookup audit command loads those. It declares "rules", each with a "type" (required-prop, forbidden-prop
+or allowed-values), "component", "prop", optional "id", "severity" (error, warning, info),
+"message", and "when"/"unless" conditions as in check_prop_rules. Example .jsxproprc.json:
   {
-    componentName: z.string().describe('Name of the component to check (e.g., "Select", "Button", "Image")'),
-    requiredProp: z.string().describe('Name of the required prop that should be present (e.g., "width", "alt", "aria-label")'),
-    directory: z.string().default('.').describe('Directory to search in (defaults to current directory)'),
-  },
-  async ({ componentName, requiredProp, directory }) => {
-    try {
+    "rules": [
+      { "id": "button-type", "type": "required-prop", "component": "Button", "prop": "type", "when": { "inside": "form" } },
+      { "type": "forbidden-prop", "component": "Box", "prop": "style", "severity": "warning" },
+      { "type": "allowed-values", "component": "Button", "prop": "size", "values": ["sm", "md", "lg"] }
+    ]
+  }
+
+EXAMPLES:
+1. Audit the current directory with its config file:
+   {}
+
+2. Audit a package with a shared config:
+   { "directory": "packages/app", "configPath": "config/.jsxproprc.json" }
+
+3. SARIF for a code-scanning upload:
+   { "format": "sarif" }
+
+Returns:
+- configFile: the config that was used
+- rules: per rule, its id, type, severity and findings (file, line, message, passed value)
+- summary: files scanned and finding counts per severity
+- With format "sarif", "junit" or "github-annotations": the findings rendered in that format
+  instead, with error/warning severities kept and info findings as notes`,
+    {
+      directory: z.string().default('.').describe('Project root to audit, where the config file is looked up (defaults to current directory)'),
+      configPath: z.string().optional().describe('JSON config file to use instead of the one in the project root'),
+      ...pageParams,
+      format: reportFormatParam,
+    },
+    async ({ directory, configPath, ...page }) => {
+      try {
+        const absDir = resolveAndValidatePath(directory, 'directory');
+        const configFile = configPath
+          ? resolveAndValidatePath(configPath, 'configPath')
+          : findProjectConfig(absDir);
+        if (!configFile) {
+          throw new Error(
+            `No config file found in ${absDir} (looked for ${CONFIG_FILE_NAMES.join(', ')})`
+          );
+        }
+        const config = await loadProjectConfig(configFile);
+        const result = await analyzer.auditProject(config.rules, absDir, {
+          spreadPolicy: config.spreadPolicy,
+        });
+        return formatPagedResponse(
+          { configFile, ...result },
+          auditPager(),
+          page,
+          absDir,
+          auditReport
+        );
+      } catch (error) {
+        return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  );
+
+  server.resource(
+    'component-index',
+    COMPONENT_INDEX_URI,
+    {
+      description: 'Components declared under the allowed roots, with their props',
+      mimeType: 'application/json',
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(await buildComponentCatalog(), null, 2),
+        },
+      ],
+    })
+  );
+
+  server.resource(
+    'component',
+    new ResourceTemplate(`${COMPONENT_URI_PREFIX}{name}`, {
+      list: async () => ({
+        resources: (await componentNames()).map((name) => ({
+          uri: componentUri(name),
+          name,
+          description: `Declarations, props and usage counts of ${name}`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: {
+        name: async (value) => (await componentNames()).filter((name) => name.startsWith(value)),
+      },
+    }),
+    {
+      description:
+        'Declarations of a component with their props schema and how often call sites pass each prop; qualified names such as @acme/ui#Button are percent-encoded',
+      mimeType: 'application/json',
+    },
+    async (uri, { name }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(await buildComponentDetails(templateVariable(name)), null, 2),
+        },
+      ],
+    })
+  );
+
+  server.resource(
+    'file-analysis',
+    new ResourceTemplate(`${FILE_URI_PREFIX}{+file}`, { list: undefined }),
+    {
+      description:
+        'Components and prop usages of a single file, as returned by analyze_jsx_props (e.g., jsx-file:///home/project/src/App.tsx or jsx-file://src/App.tsx)',
+      mimeType: 'application/json',
+    },
+    async (uri, { file }) => {
+      const absFile = resolveAndValidatePath(templateVariable(file), 'file');
+      if (!fs.statSync(absFile).isFile()) {
+        throw new Error(`Not a file: ${absFile}`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(await analyzer.analyzeProps(absFile), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.prompt(
+    'audit-image-accessibility',
+    'Find images without alt text and review the alt text in use, with fixes to apply',
+    {
+      component: componentArgument(
+        'Image element or component to audit (default: "img")'
+      ).optional(),
+      directory: z.string().optional().describe('Directory to audit (defaults to current directory)'),
+    },
+    async ({ component = 'img', directory = '.' }) => {
+      const absDir = resolveAndValidatePath(directory, 'directory');
+      const missing = await analyzer.findComponentsWithoutProp(component, 'alt', absDir);
+      const values = await analyzer.getPropValueStats('alt', absDir, component);
+      return promptMessage(
+        [
+          `Audit the accessibility props of <${component}> elements under ${absDir}.`,
+          '',
+          'Every image needs an `alt` prop: a short description of what it shows, or `alt=""` when it is purely decorative so that screen readers skip it. Using the analysis below:',
+          '1. For each usage missing `alt`, read the surrounding code and propose alt text, or `alt=""` if the image is decorative.',
+          '2. Review the `alt` values in use. Flag values that do not describe an image, such as file names or generic words like "image" or "photo", and dynamic values that may be empty.',
+          '3. Check the usages marked "unless passed by", whose spreads may or may not pass `alt`.',
+          '',
+          'Finish with a table of location, problem and suggested fix. Once fixes are agreed, find_components_without_prop with `fix` can insert a shared value such as `alt=""`.',
+          '',
+          promptSection(
+            'Usages missing `alt` (find_components_without_prop)',
+            missing,
+            missingPropPager,
+            absDir
+          ),
+          '',
+          promptSection(
+            '`alt` values in use (get_prop_value_stats)',
+            values,
+            propValueStatsPager,
+            absDir
+          ),
+        ].join('\n')
+      );
+    }
+  );
+
+  server.prompt(
+    'document-component',
+    'Write API documentation for a component from its props schema and real usages',
+    {
+      component: componentArgument('Component to document (e.g., "Button")'),
+      directory: z.string().optional().describe('Directory to search for the component and its usages (defaults to current directory)'),
+    },
+    async ({ component, directory = '.' }) => {
       const absDir = resolveAndValidatePath(directory, 'directory');
-      const result = await analyzer.findComponentsWithoutProp(componentName, requiredProp, absDir);
-      return formatToolResponse(result);
-    } catch (error) {
-      return formatToolResponse(null, error instanceof Error ? error : new Error(String(error)));
+      const declarations = await buildComponentDetails(component, [absDir]);
+      const usages = await analyzer.analyzeProps(absDir, component);
+      return promptMessage(
+        [
+          `Write API documentation for the ${component} component in Markdown, for the engineers who use it.`,
+          '',
+          'Cover what the component is for, judging from its code; a props table with name, type, required, default and description, keeping JSDoc descriptions and writing missing ones from the code; the allowed values of each prop; and one or two examples based on the real usages below. Mention props that call sites never pass, and props whose type, default or description disagrees with how call sites use them.',
+          '',
+          `## Declarations, props and usage counts (jsx-component://${encodeURIComponent(component)})`,
+          '',
+          '```json',
+          JSON.stringify(declarations, null, 2),
+          '```',
+          '',
+          promptSection('Usages (analyze_jsx_props)', usages, analysisPager, absDir),
+        ].join('\n')
+      );
     }
+  );
+
+  server.prompt(
+    'plan-prop-removal',
+    'Plan the removal of a prop: its call sites, the values they pass and the definition to change',
+    {
+      component: componentArgument('Component whose prop to remove (e.g., "Button")'),
+      prop: z.string().describe('Prop to remove (e.g., "legacyMode")'),
+      directory: z.string().optional().describe('Directory to search for the component and its usages (defaults to current directory)'),
+    },
+    async ({ component, prop, directory = '.' }) => {
+      const absDir = resolveAndValidatePath(directory, 'directory');
+      const declarations = await buildComponentDetails(component, [absDir]);
+      const usages = await analyzer.findPropUsage(prop, absDir, component);
+      const values = await analyzer.getPropValueStats(prop, absDir, component);
+      const definitions = declarations.map((declaration) => ({
+        file: declaration.file,
+        definition: declaration.props.find((definition) => definition.name === prop),
+        callSites: declaration.usage.callSites,
+        passing: declaration.usage.props[prop] ?? 0,
+        spreading: declaration.usage.props['...spread'] ?? 0,
+      }));
+      return promptMessage(
+        [
+          `Plan the removal of the \`${prop}\` prop from ${component}.`,
+          '',
+          'Using the analysis below, write a step-by-step plan covering:',
+          `1. The call sites passing \`${prop}\`, grouped by value: those passing the default can drop it; say what the others should change to keep their behavior.`,
+          `2. The definition: the props type member, default and code reading \`${prop}\` to remove.`,
+          '3. Call sites that spread props into the component, which may pass the prop without naming it.',
+          '4. An order for the changes that keeps the code working at each step, deprecating the prop first if code outside this directory uses the component.',
+          '',
+          'If the prop is being replaced rather than dropped, rename_prop can rename it at every call site and in the definition.',
+          '',
+          `## Definitions (jsx-component://${encodeURIComponent(component)})`,
+          '',
+          '```json',
+          JSON.stringify(definitions, null, 2),
+          '```',
+          '',
+          promptSection(`Usages of \`${prop}\` (find_prop_usage)`, usages, propUsagesPager, absDir),
+          '',
+          promptSection(
+            'Values passed (get_prop_value_stats)',
+            values,
+            propValueStatsPager,
+            absDir
+          ),
+        ].join('\n')
+      );
+    }
+  );
+
+  if (watchMode) {
+    const subscribedUris = new Set<string>();
+    watchingServers.set(server, subscribedUris);
+    server.server.onclose = () => watchingServers.delete(server);
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscribedUris.add(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscribedUris.delete(request.params.uri);
+      return {};
+    });
   }
-);
+
+  return server;
+};
+
+// Whether a batch of file changes may have changed a subscribed resource: the index when the
+// catalog did, any component (its call sites may be anywhere), and a file when it changed
+const isResourceChanged = (uri: string, catalogChanged: boolean, changedFiles: string[]) => {
+  if (uri === COMPONENT_INDEX_URI) return catalogChanged;
+  if (uri.startsWith(COMPONENT_URI_PREFIX)) return changedFiles.length > 0;
+  if (uri.startsWith(FILE_URI_PREFIX)) {
+    const file = decodeURIComponent(uri.slice(FILE_URI_PREFIX.length));
+    return changedFiles.includes(path.resolve(process.cwd(), file));
+  }
+  return false;
+};
+
+// Last published catalog, compared after each batch of file changes to decide which
+// notifications to send
+let publishedCatalog: { text: string; keys: string } | undefined;
+let publishing = Promise.resolve();
+
+const publishCatalogChanges = (changedFiles: string[] = []) => {
+  publishing = publishing
+    .then(async () => {
+      const catalog = await buildComponentCatalog();
+      const text = JSON.stringify(catalog);
+      const keys = JSON.stringify(catalog.map((c) => `${c.file}#${c.componentName}`).sort());
+      const previous = publishedCatalog;
+      publishedCatalog = { text, keys };
+      if (!previous) return;
+
+      for (const [server, subscribedUris] of watchingServers) {
+        if (keys !== previous.keys) server.sendResourceListChanged();
+        for (const uri of subscribedUris) {
+          if (isResourceChanged(uri, text !== previous.text, changedFiles)) {
+            await server.server.sendResourceUpdated({ uri });
+          }
+        }
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to refresh the component index:', error);
+    });
+  return publishing;
+};
 
 // CLI Help text
 const showHelp = () => {
@@ -324,17 +1212,51 @@ JSX Prop Lookup MCP Server v3.1.0-beta.0
 
 USAGE:
   npx jsx-prop-lookup-mcp-server [options]
+  npx jsx-prop-lookup <command> [arguments] [options]
 
 OPTIONS:
   --help, -h              Show this help message
   --allowed-roots <paths> Comma-separated list of allowed filesystem roots
                           (env: ALLOWED_ROOTS)
+  --custom-hocs <names>   Comma-separated list of project HOCs to unwrap when
+                          locating component definitions, in addition to memo,
+                          forwardRef, observer, styled, withStyles, withTheme,
+                          withRouter and connect (env: CUSTOM_HOCS)
+  --cache-dir <path>      Directory for the on-disk analysis cache
+                          (env: CACHE_DIR, default: jsx-prop-lookup-mcp-server
+                          under $XDG_CACHE_HOME or ~/.cache)
+  --no-cache              Disable the on-disk analysis cache
+  --workers <count>       Worker threads for parallel file analysis; 0 analyzes
+                          on the main thread (env: WORKERS, default: CPUs - 1)
+  --max-response-chars <n>
+                          Characters a tool response may take before it is
+                          paged (env: MAX_RESPONSE_CHARS, default: 100000;
+                          0 for no limit)
+  --transport <mode>      stdio (default) or http for the MCP Streamable HTTP
+                          transport, serving several clients at /mcp
+  --port <port>           HTTP port (default: 3000)
+  --host <address>        HTTP bind address (default: 127.0.0.1)
+  --session-idle-timeout <seconds>
+                          Close HTTP sessions without requests for this long
+                          (env: SESSION_IDLE_TIMEOUT, default: 1800; 0 keeps
+                          them until the client ends them)
+  --watch                 Index the allowed roots (or the working directory) on
+                          startup, keep the index current as files change, and
+                          notify clients subscribed to resources that change
 
 MODE:
   This server runs in MCP (Model Context Protocol) mode and communicates
-  via stdio. It provides tools for analyzing JSX/React component props.
+  via stdio, or over HTTP with --transport=http. It provides tools for
+  analyzing JSX/React component props.
+
+  Over HTTP, set MCP_AUTH_TOKEN to require an "Authorization: Bearer <token>"
+  header on every request:
+    MCP_AUTH_TOKEN=secret npx jsx-prop-lookup-mcp-server --transport=http --port 3000
 
 AVAILABLE TOOLS:
+  Every tool also takes limit (maximum number of items to return), cursor
+  (from the previous response, for the next page) and format: full (default),
+  compact (one-line JSON, relative paths) or minimal (one line per item).
   1. analyze_jsx_props
      Analyze JSX/React component prop usage across files and directories
      
@@ -379,14 +1301,114 @@ Parameters:
      
 Parameters:
         - componentName (required): Name of the component to check
-        - requiredProp (required): Name of the required prop
+        - requiredProp (optional): Name of the required prop (default: props the
+          definition marks as required, e.g. PropTypes isRequired)
         - directory (optional): Directory to search (default: current directory)
+        - spreadPolicy (optional): report | assumePresent | assumeMissing for spreads
+          whose keys cannot be resolved (default: report)
+        - fix (optional): { "defaultValue": "<expression>" } inserts the missing
+          requiredProp and returns a diff per file
+        - apply (optional): Write the fixes (default: false); requires --allowed-roots
+        - format (optional): full (default), compact, minimal, sarif, junit or github-annotations
       
       Examples:
         { "componentName": "Select", "requiredProp": "width" }
         { "componentName": "Image", "requiredProp": "alt" }
         { "componentName": "Button", "requiredProp": "type", "directory": "src" }
 
+  5. find_unused_props
+     Find props components declare that no call site passes
+     
+Parameters:
+        - componentName (optional): Component to check (default: every component)
+        - directory (optional): Directory to search (default: current directory)
+      
+      Examples:
+        {}
+        { "componentName": "Button", "directory": "src" }
+
+  6. find_unknown_props
+     Find usages passing props the component does not declare
+     
+Parameters:
+        - componentName (optional): Component to check (default: every component)
+        - directory (optional): Directory to search (default: current directory)
+        - format (optional): full (default), compact, minimal, sarif, junit or github-annotations
+      
+      Examples:
+        {}
+        { "componentName": "Button", "directory": "src" }
+
+  7. get_prop_value_stats
+     Count the distinct values passed to a prop, with example locations
+     
+Parameters:
+        - propName (required): Name of the prop to summarize
+        - directory (optional): Directory to search (default: current directory)
+        - componentName (optional): Limit to specific component
+      
+      Examples:
+        { "propName": "variant", "componentName": "Button" }
+        { "propName": "size", "directory": "src" }
+
+  8. rename_prop
+     Rename a prop at every usage of a component (dry run with a unified diff by default)
+     
+Parameters:
+        - componentName (required): Component whose prop to rename
+        - from (required): Current prop name
+        - to (required): New prop name
+        - importSource (optional): Only rename usages imported from this module
+        - directory (optional): Directory to search (default: current directory)
+        - updateDefinition (optional): Also rename in the component declaration (default: false)
+        - dryRun (optional): Only return the diff (default: true); writing requires --allowed-roots
+      
+      Examples:
+        { "componentName": "Button", "from": "type", "to": "variant" }
+        { "componentName": "Button", "from": "type", "to": "variant", "dryRun": false }
+
+  9. check_prop_rules
+     Check usages against conditional prop requirements (when/unless conditions)
+     
+Parameters:
+        - rules (required): Rules with component, requiredProp and optional when/unless
+          conditions (hasProps, propValues, inside), id and message
+        - directory (optional): Directory to search (default: current directory)
+        - spreadPolicy (optional): report (default), assumePresent or assumeMissing
+        - format (optional): full (default), compact, minimal, sarif, junit or github-annotations
+      
+      Examples:
+        { "rules": [{ "component": "Button", "requiredProp": "type", "when": { "inside": "form" } }] }
+        { "rules": [{ "component": "Icon", "requiredProp": "aria-label", "unless": { "hasProps": ["aria-hidden"] } }] }
+
+  10. audit_project
+     Run the rules of the project's .jsxproprc.json (jsx-prop-lookup.config.ts/.mjs/.js
+     configs are only loaded by the audit command)
+     
+Parameters:
+        - directory (optional): Project root to audit (default: current directory)
+        - configPath (optional): JSON config file to use instead of the one in the project root
+        - format (optional): full (default), compact, minimal, sarif, junit or github-annotations
+      
+      Examples:
+        {}
+        { "directory": "packages/app", "configPath": "config/.jsxproprc.json" }
+        { "format": "sarif" }
+
+RESOURCES:
+  jsx-components://index    Components under the allowed roots, with their props
+  jsx-component://<name>    Declarations, props schema and usage counts of a component
+  jsx-file://<path>         analyze_jsx_props result for a single file
+
+PROMPTS:
+  audit-image-accessibility [component] [directory]
+      Images missing alt text and the alt text in use, with instructions for fixes
+  document-component <component> [directory]
+      Props schema and real usages, with instructions for API documentation
+  plan-prop-removal <component> <prop> [directory]
+      Call sites, values passed and definition, with instructions for a removal plan
+
+${CLI_USAGE}
 SECURITY:
   Use --allowed-roots to restrict filesystem access to specific directories:
     npx jsx-prop-lookup-mcp-server --allowed-roots=/home/project/src,/home/project/lib
@@ -413,6 +1435,15 @@ For more information, visit: https://github.com/lmn451/jsx-prop-lookup-mcp-serve
 `);
 };
 
+// Subcommands (e.g. `jsx-prop-lookup missing Button type`) run one analysis and exit instead
+// of starting the server
+const cliCommand = process.argv[2];
+if (isCliCommand(cliCommand)) {
+  const exitCode = await runCli(analyzer, cliCommand, process.argv.slice(3));
+  await analyzer.close();
+  process.exit(exitCode);
+}
+
 // Check for help flag before starting server
 if (process.argv.includes('--help') || process.argv.includes('-h')) {
   showHelp();
@@ -421,9 +1452,33 @@ if (process.argv.includes('--help') || process.argv.includes('-h')) {
 
 async function main() {
   try {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error('JSX Prop Lookup MCP Server running on stdio');
+    if (transportMode === 'http') {
+      const httpServer = new McpHttpServer({
+        host: httpHost,
+        port: httpPort,
+        token: authToken,
+        createServer,
+        sessionIdleTimeoutMs: sessionIdleTimeout * 1000,
+      });
+      const url = await httpServer.listen();
+      console.error(`JSX Prop Lookup MCP Server listening on ${url}`);
+      if (!authToken && !isLoopbackHost(httpHost)) {
+        console.error(
+          'Warning: serving on a non-loopback address without MCP_AUTH_TOKEN; any client that can reach it can read files under the allowed roots'
+        );
+      }
+    } else {
+      const transport = new StdioServerTransport();
+      await createServer().connect(transport);
+      console.error('JSX Prop Lookup MCP Server running on stdio');
+    }
+
+    if (watchMode) {
+      const started = Date.now();
+      await analyzer.watch(catalogRoots, (files) => void publishCatalogChanges(files));
+      await publishCatalogChanges();
+      console.error(`Watching ${catalogRoots.join(', ')} (indexed in ${Date.now() - started}ms)`);
+    }
   } catch (error) {
     console.error('Failed to start MCP server:', error);
     process.exit(1);
@@ -1,10 +1,48 @@
-import { parse } from '@babel/parser';
 import traverse from '@babel/traverse';
-import type { NodePath } from '@babel/traverse';
+import type { NodePath, Scope } from '@babel/traverse';
 import * as t from '@babel/types';
-import { readFileSync, statSync } from 'fs';
+import { existsSync, readFileSync, statSync, writeFileSync } from 'fs';
 import { glob } from 'glob';
-import { join, extname, resolve, isAbsolute } from 'path';
+import * as os from 'os';
+import { join, dirname, extname, resolve, isAbsolute, relative } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  collectImports,
+  matchesDefinition,
+  matchesJSXUsage,
+  parseComponentFilter,
+  qualifyComponentFilter,
+  resolveJSXIdentity,
+} from './utils/imports.js';
+import type { ComponentFilter, ImportBinding, ResolvedJSXIdentity } from './utils/imports.js';
+import { parseSource } from './utils/parser.js';
+import { AnalysisCache } from './services/analysis-cache.js';
+import { ModuleResolver } from './services/module-resolver.js';
+import type { ResolvedDefinition } from './services/module-resolver.js';
+import { PropTypeResolver } from './services/type-resolver.js';
+import type { PropDefinition, ResolvedPropTypes } from './services/type-resolver.js';
+import { LiveIndex } from './services/live-index.js';
+import { WorkerPool } from './services/worker-pool.js';
+import {
+  WELL_KNOWN_WRAPPERS,
+  getClassPropsType,
+  getDeclaratorPropsType,
+  getParamPropsType,
+  isComponentClass,
+  printSource,
+  unwrapComponent,
+} from './utils/props-type.js';
+import type { WrapperPredicate } from './utils/props-type.js';
+import {
+  getAttributeRenameEdit,
+  getDefinitionRenameEdits,
+  isValidPropName,
+} from './utils/prop-rename.js';
+import { formatAttribute, getAttributeInsertEdit } from './utils/jsx-edits.js';
+import { applyTextEdits, createUnifiedDiff, hashContent } from './utils/text-edits.js';
+import type { TextEdit } from './utils/text-edits.js';
+
+export type { PropDefinition } from './services/type-resolver.js';
 
 export interface PropUsage {
   propName: string;
@@ -13,8 +51,49 @@ export interface PropUsage {
   line: number;
   column: number;
   value?: string;
+  /**
+   * How a JSX attribute's value is written: a literal (including boolean shorthand such as
+   * `<Button disabled>`) or an expression evaluated at runtime
+   */
+  valueKind?: 'literal' | 'dynamic';
   isSpread?: boolean;
   type?: string;
+  /** Default applied by the component: a destructuring default or a `defaultProps` entry */
+  defaultValue?: string;
+  /** Module specifier the JSX component was imported from, when it is imported */
+  importSource?: string;
+  /** Original exported name of the imported component (e.g. 'Button' for `UIButton`) */
+  importedName?: string;
+  /** File declaring the rendered component, resolved through imports, tsconfig paths and barrels */
+  definitionFile?: string;
+}
+
+export interface ComponentCallSite {
+  componentName: string;
+  file: string;
+  line: number;
+  column: number;
+  props: string[];
+  /** Set when the element has children, which React passes as the `children` prop */
+  hasChildren?: boolean;
+  importSource?: string;
+  importedName?: string;
+  definitionFile?: string;
+}
+
+export interface MissingPropUsage {
+  componentName: string;
+  file: string;
+  line: number;
+  column: number;
+  existingProps: string[];
+  /** Required props absent from this element */
+  missingProps: string[];
+  /** Spread arguments whose keys are unknown, e.g. `props` in `{...props}` (uncertain usages) */
+  unresolvedSpreads?: string[];
+  importSource?: string;
+  importedName?: string;
+  definitionFile?: string;
 }
 
 export interface ComponentAnalysis {
@@ -22,6 +101,366 @@ export interface ComponentAnalysis {
   file: string;
   props: PropUsage[];
   propsInterface?: string;
+  /**
+   * Members of the props type, including inherited and intersected ones, followed by members
+   * declared only in `propTypes` (when includeTypes is set)
+   */
+  propDefinitions?: PropDefinition[];
+  /** Parts of the props type that could not be expanded, e.g. external `HTMLAttributes<...>` */
+  unresolvedPropTypes?: string[];
+  /** JSX elements anywhere in the scanned tree that resolve to this declaration */
+  callSites?: ComponentCallSite[];
+  /** Wrappers applied to the component, outermost first (e.g. ['memo', 'forwardRef']) */
+  wrappers?: string[];
+  /** Existing component a HOC was applied to, e.g. 'Card' for `withTheme(Card)` */
+  wrappedComponent?: string;
+}
+
+export interface UnusedProps {
+  componentName: string;
+  file: string;
+  /** Props the component destructures, reads from `props` or declares in its props type */
+  declaredProps: string[];
+  /** Declared props that no call site passes */
+  unusedProps: string[];
+  /** JSX elements in the scanned tree that resolve to this declaration */
+  callSiteCount: number;
+  /** Call sites that spread props into the element */
+  spreadCallSiteCount: number;
+  /** Set when spread call sites may pass some of the props reported as unused */
+  uncertain: boolean;
+}
+
+export interface UnknownPropUsage {
+  /** Name of the rendered component's declaration */
+  componentName: string;
+  file: string;
+  line: number;
+  column: number;
+  /** Passed props the component does not declare */
+  unknownProps: string[];
+  definitionFile: string;
+}
+
+export interface PropValueStats {
+  /** Value as printed by the analyzer; '…' when the expression has no readable form */
+  value: string;
+  valueKind: 'literal' | 'dynamic';
+  count: number;
+  /** Share of all usages of the prop, 0-100 */
+  percentage: number;
+  /** First few usages passing this value */
+  examples: { componentName: string; file: string; line: number; column: number }[];
+}
+
+/**
+ * How elements spreading objects whose keys cannot be determined are treated when checking
+ * for missing props: as passing every prop, as passing none, or reported as uncertain.
+ */
+export type SpreadPolicy = 'assumePresent' | 'assumeMissing' | 'report';
+
+export interface MissingPropOptions {
+  /** Treatment of unresolvable spreads (default: 'report') */
+  spreadPolicy?: SpreadPolicy;
+  /** Insert the missing prop with `defaultValue`, a JavaScript expression such as `'button'` */
+  fix?: { defaultValue: string };
+  /** Write the fixes; otherwise only the diffs are computed */
+  apply?: boolean;
+  /** Checked for every changed file before writing; nothing is written if any is refused */
+  canWrite?: (file: string) => boolean;
+}
+
+export interface MissingPropFix {
+  /**
+   * Per changed file (absolute path), its unified diff, whose paths are relative to the
+   * searched directory
+   */
+  files: { file: string; diff: string; insertions: number }[];
+  applied: boolean;
+}
+
+export interface RenameConflict {
+  componentName: string;
+  file: string;
+  line: number;
+  column: number;
+  /** Why the element was left unchanged */
+  reason: string;
+}
+
+export interface RenamePropOptions {
+  /** Only rename usages of the component imported from this module (e.g. '@acme/ui') */
+  importSource?: string;
+  /**
+   * Also rename the prop in the component's declaration: destructuring, `props.x` reads,
+   * `defaultProps`/`propTypes` keys and props type members declared in the same file
+   */
+  updateDefinition?: boolean;
+  /** Write the changed files; otherwise only the diff is computed */
+  write?: boolean;
+  /** Checked for every changed file before writing; nothing is written if any is refused */
+  canWrite?: (file: string) => boolean;
+}
+
+export interface RenamePropResult {
+  /** Unified diff of every change, with paths relative to the searched directory */
+  diff: string;
+  files: { file: string; callSites: number; definitionEdits: number }[];
+  /** Usages left unchanged because they already pass the new name */
+  conflicts: RenameConflict[];
+  /** Parts of the rename that need a manual follow-up */
+  warnings: string[];
+  written: boolean;
+  summary: {
+    filesChanged: number;
+    callSitesRenamed: number;
+    definitionEdits: number;
+  };
+}
+
+/**
+ * Attribute checks on a JSX element; every part given must hold. Only attributes written on
+ * the element and keys of spreads the analyzer can resolve are visible to a condition.
+ */
+export interface PropRuleCondition {
+  /** Props that must be passed, with any value */
+  hasProps?: string[];
+  /**
+   * Props that must be passed with these constant values, e.g. `{ target: '_blank' }`; a bare
+   * attribute passes `true`, and values only known at runtime never match
+   */
+  propValues?: Record<string, string | number | boolean>;
+  /** Element or component the usage must be nested in (in the same JSX tree), e.g. 'form' */
+  inside?: string;
+}
+
+/**
+ * Conditional prop requirement: usages of `component` for which `when` holds and `unless`
+ * does not must pass `requiredProp`.
+ */
+export interface PropRule {
+  /** Name reported with violations (default: `<component>:<requiredProp>`) */
+  id?: string;
+  /** Component filter, e.g. 'Link' or '@acme/ui#Link' */
+  component: string;
+  requiredProp: string;
+  when?: PropRuleCondition;
+  unless?: PropRuleCondition;
+  /** Explanation reported with violations */
+  message?: string;
+}
+
+export interface PropRuleViolation extends MissingPropUsage {
+  ruleId: string;
+  message?: string;
+}
+
+export interface PropRulesOptions {
+  /** Treatment of unresolvable spreads when checking for the required prop (default: 'report') */
+  spreadPolicy?: SpreadPolicy;
+}
+
+export interface PropRulesResult {
+  violations: PropRuleViolation[];
+  /** Usages that may break a rule, depending on what their spreads contain */
+  uncertainViolations: PropRuleViolation[];
+  summary: {
+    /** Per rule, the usages it applied to and how many of them break it */
+    rules: { id: string; instances: number; violations: number; uncertain: number }[];
+    totalViolations: number;
+    uncertainCount: number;
+  };
+}
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export interface AuditRuleBase {
+  /** Name findings are grouped under (default: `<type>:<component>:<prop>`) */
+  id?: string;
+  /** Component filter, e.g. 'Button' or '@acme/ui#Button' */
+  component: string;
+  prop: string;
+  /** The rule only applies to usages matching this condition */
+  when?: PropRuleCondition;
+  /** The rule does not apply to usages matching this condition */
+  unless?: PropRuleCondition;
+  /** Default: 'error' */
+  severity?: RuleSeverity;
+  /** Reported with each finding instead of the generated description */
+  message?: string;
+}
+
+/**
+ * Project rule checked by `auditProject`: usages must pass `prop` (required-prop), must not
+ * pass it (forbidden-prop), or may only pass it one of `values` (allowed-values).
+ */
+export type AuditRule =
+  | (AuditRuleBase & { type: 'required-prop' })
+  | (AuditRuleBase & { type: 'forbidden-prop' })
+  | (AuditRuleBase & { type: 'allowed-values'; values: (string | number | boolean)[] });
+
+export interface AuditFinding {
+  componentName: string;
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  /** Value passed, for allowed-values rules */
+  value?: string | number | boolean;
+  /** Spread arguments that may pass the prop (uncertain required-prop findings) */
+  unresolvedSpreads?: string[];
+  importSource?: string;
+  importedName?: string;
+}
+
+export interface AuditRuleResult {
+  id: string;
+  type: AuditRule['type'];
+  severity: RuleSeverity;
+  component: string;
+  prop: string;
+  findings: AuditFinding[];
+  /** Required-prop findings that depend on what unresolvable spreads contain */
+  uncertainFindings: AuditFinding[];
+}
+
+export interface AuditResult {
+  rules: AuditRuleResult[];
+  summary: {
+    filesScanned: number;
+    totalFindings: number;
+    /** Findings per severity */
+    errors: number;
+    warnings: number;
+    infos: number;
+    uncertainCount: number;
+  };
+}
+
+export interface AnalyzerOptions {
+  /** Project-specific higher-order components to unwrap in addition to the built-in wrappers */
+  customHocs?: string[];
+  /** Directory for the on-disk cache of per-file results; caching is off when unset */
+  cacheDir?: string;
+  /**
+   * Worker threads that parse and analyze files in parallel (default: one less than the
+   * available CPUs); 0 analyzes every file on the calling thread
+   */
+  workers?: number;
+}
+
+interface ResolvedCallSite {
+  site: ComponentCallSite;
+  definitionName?: string;
+}
+
+/**
+ * Props every usage must pass: one explicit prop, or the required props of each matching
+ * definition keyed by `file#name`
+ */
+type RequiredProps = { prop: string } | { byDefinition: Record<string, string[]> };
+
+interface FileAnalysis {
+  components: ComponentAnalysis[];
+  propUsages: PropUsage[];
+  callSites: ResolvedCallSite[];
+}
+
+/** Edits planned for one file by a prop rename */
+/** Edits to one file, with the hash of the content the per-file analysis computed them from */
+interface FileEdits {
+  edits: TextEdit[];
+  sourceHash?: string;
+}
+
+interface FileRename extends FileEdits {
+  callSites: number;
+  definitionEdits: number;
+}
+
+interface PropRenameAnalysis {
+  edits: TextEdit[];
+  conflicts: RenameConflict[];
+  sourceHash?: string;
+}
+
+interface PropRulesAnalysis {
+  violations: PropRuleViolation[];
+  uncertain: PropRuleViolation[];
+  /** Usages each rule applied to, by rule index */
+  instances: number[];
+}
+
+type IdentifiedAuditRule = AuditRule & { id: string; severity: RuleSeverity };
+
+interface AuditAnalysis {
+  /** Findings by rule index */
+  findings: AuditFinding[][];
+  uncertain: AuditFinding[][];
+}
+
+interface MissingPropAnalysis {
+  missingProps: MissingPropUsage[];
+  /** Usages that may lack required props, depending on what their spreads contain */
+  uncertain: MissingPropUsage[];
+  totalInstances: number;
+  /** Insertions of the fix attribute, when one was requested */
+  edits: TextEdit[];
+  /** Hash of the content the edits apply to */
+  sourceHash?: string;
+}
+
+type FileTaskInput =
+  | {
+      kind: 'analyze';
+      componentName?: string;
+      propName?: string;
+      includeTypes: boolean;
+      collectCallSites: boolean;
+    }
+  | {
+      kind: 'missingProps';
+      componentName: string;
+      requiredProps: RequiredProps;
+      spreadPolicy: SpreadPolicy;
+      /** Attribute inserted into each element missing the prop, e.g. `type="button"` */
+      fixAttribute?: string;
+    }
+  | {
+      kind: 'renameProp';
+      componentName: string;
+      /** `file#name` keys of the declarations a path-qualified filter matches */
+      definitions?: string[];
+      from: string;
+      to: string;
+    }
+  | { kind: 'propRules'; rules: (PropRule & { id: string })[]; spreadPolicy: SpreadPolicy }
+  | { kind: 'audit'; rules: IdentifiedAuditRule[]; spreadPolicy: SpreadPolicy };
+
+/**
+ * Per-file unit of work, run on the calling thread or on a worker. Tasks with the same
+ * `runId` share a module resolver.
+ */
+export type FileTask = FileTaskInput & { runId: number; file: string };
+
+export type FileTaskResult =
+  | FileAnalysis
+  | MissingPropAnalysis
+  | PropRenameAnalysis
+  | PropRulesAnalysis
+  | AuditAnalysis;
+
+/** A task's result with the other files (imported modules, tsconfig files) it depends on */
+export interface FileTaskOutput<T extends FileTaskResult = FileTaskResult> {
+  result: T;
+  dependencies: string[];
+}
+
+interface CollectedAnalysis {
+  files: string[];
+  components: ComponentAnalysis[];
+  propUsages: PropUsage[];
+  callSites: ResolvedCallSite[];
 }
 
 export interface AnalysisResult {
@@ -34,11 +473,42 @@ export interface AnalysisResult {
   propUsages: PropUsage[];
 }
 
+/** Attributes React consumes itself; components never declare them */
+const REACT_RESERVED_PROPS = ['key', 'ref'];
+
+/** Usage locations listed per distinct prop value */
+const VALUE_EXAMPLE_COUNT = 3;
+
+/** Directories never scanned for source files */
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build'];
+
 export class JSXPropAnalyzer {
   private readonly supportedExtensions = ['.js', '.jsx', '.ts', '.tsx'];
   // Normalize babel-traverse default export once for reuse (avoid `any` cast)
   private readonly traverseDefault = ((traverse as unknown) as { default?: typeof traverse }).default ||
     traverse;
+  private readonly isWrapper: WrapperPredicate;
+  private readonly cache?: AnalysisCache;
+  private readonly workerCount: number;
+  private readonly workerOptions: AnalyzerOptions;
+  /** Created on first use; null when workers are disabled or the worker script is missing */
+  private workerPool?: WorkerPool<FileTask, FileTaskOutput> | null;
+  private liveIndex?: LiveIndex<FileTaskOutput>;
+  private nextRunId = 0;
+
+  constructor(options: AnalyzerOptions = {}) {
+    // availableParallelism() is missing before Node 18.14
+    const cpuCount = os.availableParallelism?.() ?? os.cpus().length;
+    this.workerCount = options.workers ?? Math.max(0, cpuCount - 1);
+    this.workerOptions = { customHocs: options.customHocs, cacheDir: options.cacheDir };
+    const wrapperNames = new Set([...WELL_KNOWN_WRAPPERS, ...(options.customHocs ?? [])]);
+    this.isWrapper = (name) => wrapperNames.has(name);
+    if (options.cacheDir) {
+      this.cache = new AnalysisCache(options.cacheDir, {
+        customHocs: [...wrapperNames].sort(),
+      });
+    }
+  }
 
   /**
    * Extract component name from JSX identifier or member expression
@@ -77,19 +547,11 @@ export class JSXPropAnalyzer {
     propName?: string,
     includeTypes: boolean = true
   ): Promise<AnalysisResult> {
-    const files = await this.getFiles(path);
-    const components: ComponentAnalysis[] = [];
-    const allPropUsages: PropUsage[] = [];
-
-    for (const file of files) {
-      try {
-        const analysis = await this.analyzeFile(file, componentName, propName, includeTypes);
-        components.push(...analysis.components);
-        allPropUsages.push(...analysis.propUsages);
-      } catch (error) {
-        console.error(`Error analyzing file ${file}:`, error);
-      }
-    }
+    const {
+      files,
+      components,
+      propUsages: allPropUsages,
+    } = await this.collectAnalysis(path, componentName, propName, includeTypes, false);
 
     return {
       summary: {
@@ -111,89 +573,594 @@ export class JSXPropAnalyzer {
     return result.propUsages.filter((usage) => usage.propName === propName);
   }
 
+  /**
+   * Group the usages of a prop by value, most frequent first. Boolean shorthand counts as the
+   * literal `true`; literals and expressions that print alike (`"a"` vs `{a}`) stay apart.
+   */
+  async getPropValueStats(
+    propName: string,
+    directory: string = '.',
+    componentName?: string
+  ): Promise<{
+    values: PropValueStats[];
+    summary: {
+      totalUsages: number;
+      distinctValues: number;
+      literalCount: number;
+      dynamicCount: number;
+    };
+  }> {
+    // Only JSX attributes have a value kind; component-side props are left out
+    const usages = (await this.findPropUsage(propName, directory, componentName)).filter(
+      (usage) => usage.valueKind !== undefined
+    );
+    const byValue = new Map<string, PropValueStats>();
+    for (const usage of usages) {
+      const valueKind = usage.valueKind ?? 'dynamic';
+      const value = usage.value ?? (valueKind === 'literal' ? 'true' : '…');
+      const key = `${valueKind}:${value}`;
+      let stats = byValue.get(key);
+      if (!stats) {
+        stats = { value, valueKind, count: 0, percentage: 0, examples: [] };
+        byValue.set(key, stats);
+      }
+      stats.count++;
+      if (stats.examples.length < VALUE_EXAMPLE_COUNT) {
+        const { componentName, file, line, column } = usage;
+        stats.examples.push({ componentName, file, line, column });
+      }
+    }
+
+    const values = [...byValue.values()].sort((a, b) => b.count - a.count);
+    for (const stats of values) {
+      stats.percentage = (stats.count / usages.length) * 100;
+    }
+    const literalCount = usages.filter((usage) => usage.valueKind === 'literal').length;
+    return {
+      values,
+      summary: {
+        totalUsages: usages.length,
+        distinctValues: values.length,
+        literalCount,
+        dynamicCount: usages.length - literalCount,
+      },
+    };
+  }
+
   async getComponentProps(
     componentName: string,
     directory: string = '.'
   ): Promise<ComponentAnalysis[]> {
-    const result = await this.analyzeProps(directory, componentName);
-    return result.components.filter((comp) => comp.componentName === componentName);
+    return this.collectComponentsWithCallSites(componentName, directory);
+  }
+
+  /**
+   * Find props that matching components declare but no call site in `directory` passes.
+   * Without a component name every component declared in the directory is checked.
+   */
+  async findUnusedProps(
+    componentName: string | undefined,
+    directory: string = '.'
+  ): Promise<{
+    components: UnusedProps[];
+    summary: {
+      totalComponents: number;
+      componentsWithUnusedProps: number;
+      totalUnusedProps: number;
+    };
+  }> {
+    const definitions = await this.collectComponentsWithCallSites(componentName, directory);
+    const components: UnusedProps[] = [];
+    for (const definition of definitions) {
+      const declaredProps = this.getDeclaredProps(definition);
+      const callSites = definition.callSites ?? [];
+      const passedProps = new Set(callSites.flatMap((site) => site.props));
+      if (callSites.some((site) => site.hasChildren)) passedProps.add('children');
+      const unusedProps = [...declaredProps].filter((prop) => !passedProps.has(prop));
+      if (unusedProps.length === 0) continue;
+
+      const spreadCallSiteCount = callSites.filter((site) =>
+        site.props.includes('...spread')
+      ).length;
+      components.push({
+        componentName: definition.componentName,
+        file: definition.file,
+        declaredProps: [...declaredProps],
+        unusedProps,
+        callSiteCount: callSites.length,
+        spreadCallSiteCount,
+        uncertain: spreadCallSiteCount > 0,
+      });
+    }
+
+    return {
+      components,
+      summary: {
+        totalComponents: definitions.length,
+        componentsWithUnusedProps: components.length,
+        totalUnusedProps: components.reduce((total, c) => total + c.unusedProps.length, 0),
+      },
+    };
+  }
+
+  /**
+   * Find JSX usages passing props their component does not declare, such as typos and props
+   * left over after a removal. Usages of components that collect undeclared props with
+   * `...rest` (and forward them to an underlying element), and of components whose props type
+   * could not be fully expanded (see `unresolvedPropTypes`), are reported separately.
+   */
+  async findUnknownProps(
+    componentName: string | undefined,
+    directory: string = '.'
+  ): Promise<{
+    unknownPropUsages: UnknownPropUsage[];
+    forwardedPropUsages: UnknownPropUsage[];
+    uncertainPropUsages: UnknownPropUsage[];
+    summary: {
+      totalCallSites: number;
+      unknownPropCount: number;
+      forwardedPropCount: number;
+      uncertainPropCount: number;
+    };
+  }> {
+    // Every component is needed to look up the target of HOC-wrapped definitions
+    const components = await this.collectComponentsWithCallSites(undefined, directory);
+    const filter = componentName
+      ? parseComponentFilter(this.qualifyFilter(componentName, directory))
+      : undefined;
+    const unknownPropUsages: UnknownPropUsage[] = [];
+    const forwardedPropUsages: UnknownPropUsage[] = [];
+    const uncertainPropUsages: UnknownPropUsage[] = [];
+    let totalCallSites = 0;
+
+    for (const definition of components) {
+      if (filter && !matchesDefinition(filter, definition.componentName, definition.file)) {
+        continue;
+      }
+      // `withTheme(Card)` takes Card's props; skip wrappers around components declared elsewhere
+      const declaration = definition.wrappedComponent
+        ? components.find(
+            (c) => c.file === definition.file && c.componentName === definition.wrappedComponent
+          )
+        : definition;
+      if (!declaration) continue;
+
+      const declaredProps = this.getDeclaredProps(declaration);
+      // Nothing declared usually means the props object is passed on whole, e.g. `{...props}`
+      if (declaredProps.size === 0) continue;
+      const forwardsRest = declaration.props.some((prop) => prop.isSpread);
+      // e.g. `extends React.ButtonHTMLAttributes<…>`: the undeclared props may be inherited
+      const uncertain = (declaration.unresolvedPropTypes?.length ?? 0) > 0;
+      const usages = forwardsRest
+        ? forwardedPropUsages
+        : uncertain
+          ? uncertainPropUsages
+          : unknownPropUsages;
+      for (const site of definition.callSites ?? []) {
+        totalCallSites++;
+        const unknownProps = site.props.filter(
+          (prop) =>
+            prop !== '...spread' && !declaredProps.has(prop) && !REACT_RESERVED_PROPS.includes(prop)
+        );
+        if (unknownProps.length === 0) continue;
+
+        usages.push({
+          componentName: definition.componentName,
+          file: site.file,
+          line: site.line,
+          column: site.column,
+          unknownProps,
+          definitionFile: definition.file,
+        });
+      }
+    }
+
+    const count = (usages: UnknownPropUsage[]) =>
+      usages.reduce((total, usage) => total + usage.unknownProps.length, 0);
+    return {
+      unknownPropUsages,
+      forwardedPropUsages,
+      uncertainPropUsages,
+      summary: {
+        totalCallSites,
+        unknownPropCount: count(unknownPropUsages),
+        forwardedPropCount: count(forwardedPropUsages),
+        uncertainPropCount: count(uncertainPropUsages),
+      },
+    };
+  }
+
+  /**
+   * Props a component destructures, reads from `props` or declares in its props type.
+   */
+  private getDeclaredProps(component: ComponentAnalysis): Set<string> {
+    const declaredProps = new Set(
+      component.props.filter((prop) => !prop.isSpread).map((prop) => prop.propName)
+    );
+    for (const prop of component.propDefinitions ?? []) declaredProps.add(prop.name);
+    return declaredProps;
+  }
+
+  /**
+   * Components matching `componentName` (all components when unset), each with the call sites
+   * in `directory` that resolve to its declaration.
+   */
+  private async collectComponentsWithCallSites(
+    componentName: string | undefined,
+    directory: string
+  ): Promise<ComponentAnalysis[]> {
+    const result = await this.collectAnalysis(directory, componentName, undefined, true, true);
+    const filter = componentName
+      ? parseComponentFilter(this.qualifyFilter(componentName, directory))
+      : undefined;
+    return result.components
+      .filter((comp) => !filter || matchesDefinition(filter, comp.componentName, comp.file))
+      .map((comp) => ({
+        ...comp,
+        callSites: result.callSites
+          .filter(
+            ({ site, definitionName }) =>
+              site.definitionFile === comp.file && definitionName === comp.componentName
+          )
+          .map(({ site }) => site),
+      }));
+  }
+
+  /**
+   * Analyze every file under `path`. When `collectCallSites` is set, every JSX element is
+   * recorded as a call site regardless of the component filter, so that usages importing a
+   * component under another name can still be linked to its declaration.
+   */
+  private async collectAnalysis(
+    path: string,
+    componentName: string | undefined,
+    propName: string | undefined,
+    includeTypes: boolean,
+    collectCallSites: boolean
+  ): Promise<CollectedAnalysis> {
+    const files = await this.getFiles(path);
+    const components: ComponentAnalysis[] = [];
+    const propUsages: PropUsage[] = [];
+    const callSites: ResolvedCallSite[] = [];
+
+    const results = await this.runFileTasks<FileAnalysis>(files, {
+      kind: 'analyze',
+      componentName: componentName && this.qualifyFilter(componentName, path),
+      propName,
+      includeTypes,
+      collectCallSites,
+    });
+    for (const analysis of results) {
+      if (!analysis) continue;
+      components.push(...analysis.components);
+      propUsages.push(...analysis.propUsages);
+      callSites.push(...analysis.callSites);
+    }
+
+    return { files, components, propUsages, callSites };
+  }
+
+  /**
+   * Run a task for every file, on the worker pool when one is available, and return the
+   * results in file order. Files that fail are logged and yield undefined.
+   */
+  private async runFileTasks<T extends FileTaskResult>(
+    files: string[],
+    input: FileTaskInput
+  ): Promise<(T | undefined)[]> {
+    const runId = this.nextRunId++;
+    const indexKey = JSON.stringify(input);
+    const generation = this.liveIndex?.generation ?? 0;
+    const results: (T | undefined)[] = new Array(files.length);
+    const tasks: { index: number; task: FileTask }[] = [];
+    files.forEach((file, index) => {
+      const indexed = this.liveIndex?.get(file, indexKey);
+      if (indexed) {
+        // Callers may modify results, so never hand out the indexed objects themselves
+        results[index] = structuredClone(indexed.result) as T;
+      } else {
+        tasks.push({ index, task: { ...input, runId, file } });
+      }
+    });
+
+    const settle = (index: number, task: FileTask, output?: FileTaskOutput, error?: unknown) => {
+      if (output) {
+        this.liveIndex?.set(task.file, indexKey, output, generation);
+        results[index] = (this.liveIndex ? structuredClone(output.result) : output.result) as T;
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error analyzing file ${task.file}:`, message);
+      }
+    };
+
+    const pool = tasks.length > 1 ? this.getWorkerPool() : undefined;
+    if (pool) {
+      try {
+        await Promise.all(
+          tasks.map(({ index, task }) =>
+            pool.run(task).then(
+              (output) => settle(index, task, output),
+              (error) => settle(index, task, undefined, error)
+            )
+          )
+        );
+      } finally {
+        pool.broadcast({ endRun: runId });
+      }
+      return results;
+    }
+
+    const resolver = new ModuleResolver();
+    for (const { index, task } of tasks) {
+      try {
+        settle(index, task, await this.runFileTask(task, resolver));
+      } catch (error) {
+        settle(index, task, undefined, error);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Run one per-file task on the current thread; the analysis worker calls this for tasks
+   * dispatched to it.
+   * @internal
+   */
+  async runFileTask(task: FileTask, resolver: ModuleResolver): Promise<FileTaskOutput> {
+    if (task.kind === 'analyze') {
+      return this.analyzeFileCached(
+        task.file,
+        resolver,
+        task.componentName,
+        task.propName,
+        task.includeTypes,
+        task.collectCallSites
+      );
+    }
+    if (task.kind === 'renameProp') {
+      return resolver.collectDependencies(async () => this.analyzeFileForRename(task, resolver));
+    }
+    if (task.kind === 'propRules') {
+      return resolver.collectDependencies(async () =>
+        this.analyzeFileForRules(task.file, task.rules, task.spreadPolicy)
+      );
+    }
+    if (task.kind === 'audit') {
+      return resolver.collectDependencies(async () =>
+        this.analyzeFileForAudit(task.file, task.rules, task.spreadPolicy)
+      );
+    }
+    return resolver.collectDependencies(() =>
+      this.analyzeFileForMissingProp(
+        task.file,
+        resolver,
+        task.componentName,
+        task.requiredProps,
+        task.spreadPolicy,
+        task.fixAttribute
+      )
+    );
   }
 
+  private getWorkerPool(): WorkerPool<FileTask, FileTaskOutput> | undefined {
+    if (this.workerPool === undefined) {
+      const script = new URL('./workers/analysis-worker.js', import.meta.url);
+      // When running from sources (e.g. via tsx) there is no compiled worker script
+      this.workerPool =
+        this.workerCount > 0 && existsSync(fileURLToPath(script))
+          ? new WorkerPool(script, this.workerCount, this.workerOptions)
+          : null;
+    }
+    return this.workerPool ?? undefined;
+  }
+
+  /**
+   * Stop the worker threads. Idle workers never keep the process alive, so this is only
+   * needed to release them early.
+   */
+  async close() {
+    this.unwatch();
+    await this.workerPool?.close();
+    this.workerPool = undefined;
+  }
+
+  /**
+   * Watch mode: keep per-file results for everything under `roots` in memory and drop them
+   * (along with results of files that import them) as files are created, changed or deleted.
+   * Resolves once every root has been indexed; `onChange` is called with each batch of
+   * changed source files after their results have been invalidated.
+   */
+  async watch(roots: string[], onChange?: (files: string[]) => void) {
+    this.unwatch();
+    const absoluteRoots = roots.map((root) => resolve(root));
+    this.liveIndex = new LiveIndex(absoluteRoots, IGNORED_DIRECTORIES, (files) => {
+      const sources = files.filter((file) => this.supportedExtensions.includes(extname(file)));
+      if (sources.length > 0) onChange?.(sources);
+    });
+    this.liveIndex.start();
+    for (const root of absoluteRoots) {
+      await this.analyzeProps(root);
+    }
+  }
+
+  unwatch() {
+    this.liveIndex?.close();
+    this.liveIndex = undefined;
+  }
+
+  /**
+   * Analyze a file, reusing the on-disk cache entry for the same arguments while neither the
+   * file nor the modules its analysis consulted have changed.
+   */
+  private async analyzeFileCached(
+    filePath: string,
+    resolver: ModuleResolver,
+    targetComponent: string | undefined,
+    targetProp: string | undefined,
+    includeTypes: boolean,
+    collectCallSites: boolean
+  ): Promise<FileTaskOutput<FileAnalysis>> {
+    const variant = JSON.stringify([
+      targetComponent ?? null,
+      targetProp ?? null,
+      includeTypes,
+      collectCallSites,
+    ]);
+    const cached = this.cache?.get<FileAnalysis>(filePath, variant);
+    if (cached) return cached;
+
+    const callSites: ResolvedCallSite[] = [];
+    const { result, dependencies } = await resolver.collectDependencies(() =>
+      this.analyzeFile(
+        filePath,
+        resolver,
+        targetComponent,
+        targetProp,
+        includeTypes,
+        collectCallSites ? callSites : undefined
+      )
+    );
+    const analysis = { ...result, callSites };
+    this.cache?.set(filePath, variant, analysis, dependencies);
+    return { result: analysis, dependencies };
+  }
+
+  /**
+   * Find usages of a component that lack `requiredProp`. When no prop is given, each usage is
+   * checked against the required members of its definition's schema: props marked
+   * `isRequired` in `propTypes` or non-optional in the props type, minus those with defaults.
+   *
+   * Spreads of object literals and same-file `const` objects count as passing their keys.
+   * Usages with other spreads are handled per `options.spreadPolicy`; by default those that
+   * would otherwise lack a prop are listed in `uncertainUsages`.
+   *
+   * With `options.fix`, the missing prop is inserted into each flagged element; the per-file
+   * diffs are returned, and files are written only when `options.apply` is set.
+   */
   async findComponentsWithoutProp(
     componentName: string,
-    requiredProp: string,
-    directory: string = '.'
+    requiredProp: string | undefined,
+    directory: string = '.',
+    options: MissingPropOptions = {}
   ): Promise<{
-    missingPropUsages: Array<{
-      componentName: string;
-      file: string;
-      line: number;
-      column: number;
-      existingProps: string[];
-    }>;
+    missingPropUsages: MissingPropUsage[];
+    uncertainUsages: MissingPropUsage[];
     summary: {
       totalInstances: number;
       missingPropCount: number;
       missingPropPercentage: number;
+      uncertainCount: number;
     };
+    fix?: MissingPropFix;
   }> {
+    if (options.fix && !requiredProp) {
+      throw new Error('A fix needs requiredProp: the default value applies to a single prop');
+    }
+    const fixAttribute =
+      options.fix && requiredProp
+        ? formatAttribute(requiredProp, options.fix.defaultValue)
+        : undefined;
+
     const files = await this.getFiles(directory);
-    const missingPropUsages: Array<{
-      componentName: string;
-      file: string;
-      line: number;
-      column: number;
-      existingProps: string[];
-    }> = [];
+    const missingPropUsages: MissingPropUsage[] = [];
+    const uncertainUsages: MissingPropUsage[] = [];
     let totalInstances = 0;
-
-    for (const file of files) {
-      try {
-        const result = await this.analyzeFileForMissingProp(file, componentName, requiredProp);
-        missingPropUsages.push(...result.missingProps);
-        totalInstances += result.totalInstances;
-      } catch (error) {
-        const err = error instanceof Error ? error : new Error(String(error));
-        console.error(`Error analyzing file ${file}:`, err.message);
+    const requiredProps: RequiredProps = requiredProp
+      ? { prop: requiredProp }
+      : await this.findRequiredProps(componentName, directory);
+
+    const results = await this.runFileTasks<MissingPropAnalysis>(files, {
+      kind: 'missingProps',
+      componentName: this.qualifyFilter(componentName, directory),
+      requiredProps,
+      spreadPolicy: options.spreadPolicy ?? 'report',
+      fixAttribute,
+    });
+    const editsByFile = new Map<string, FileEdits>();
+    results.forEach((result, index) => {
+      if (!result) return;
+      missingPropUsages.push(...result.missingProps);
+      uncertainUsages.push(...result.uncertain);
+      totalInstances += result.totalInstances;
+      if (result.edits.length > 0) {
+        editsByFile.set(files[index], { edits: result.edits, sourceHash: result.sourceHash });
       }
-    }
+    });
 
     const missingPropCount = missingPropUsages.length;
     const missingPropPercentage =
       totalInstances > 0 ? (missingPropCount / totalInstances) * 100 : 0;
 
+    let fix: MissingPropFix | undefined;
+    if (fixAttribute) {
+      const root = isAbsolute(directory) ? directory : resolve(directory);
+      const apply = Boolean(options.apply);
+      const diffs = this.commitEdits(editsByFile, root, apply, options.canWrite);
+      fix = {
+        files: diffs.map(({ file, diff }) => ({
+          file,
+          diff,
+          insertions: editsByFile.get(file)?.edits.length ?? 0,
+        })),
+        applied: apply && diffs.length > 0,
+      };
+    }
+
     return {
       missingPropUsages,
+      uncertainUsages,
       summary: {
         totalInstances,
         missingPropCount,
         missingPropPercentage,
+        uncertainCount: uncertainUsages.length,
       },
+      ...(fix && { fix }),
     };
   }
 
+  /**
+   * Required props of each matching definition, keyed by the definition's file and name.
+   */
+  private async findRequiredProps(
+    componentName: string,
+    directory: string
+  ): Promise<RequiredProps> {
+    const definitions = await this.getComponentProps(componentName, directory);
+    const byDefinition: Record<string, string[]> = {};
+    for (const definition of definitions) {
+      byDefinition[`${definition.file}#${definition.componentName}`] = (
+        definition.propDefinitions ?? []
+      )
+        .filter((prop) => !prop.optional && prop.defaultValue === undefined)
+        .map((prop) => prop.name);
+    }
+    return { byDefinition };
+  }
+
+  private requiredPropsFor(requiredProps: RequiredProps, definition?: ResolvedDefinition) {
+    if ('prop' in requiredProps) return [requiredProps.prop];
+    return (
+      (definition && requiredProps.byDefinition[`${definition.file}#${definition.name}`]) || []
+    );
+  }
+
   /**
    * Analyze a single file for missing required props
    */
   private async analyzeFileForMissingProp(
     file: string,
+    resolver: ModuleResolver,
     componentName: string,
-    requiredProp: string
-  ): Promise<{
-    missingProps: Array<{
-      componentName: string;
-      file: string;
-      line: number;
-      column: number;
-      existingProps: string[];
-    }>;
-    totalInstances: number;
-  }> {
+    requiredProps: RequiredProps,
+    spreadPolicy: SpreadPolicy,
+    fixAttribute?: string
+  ): Promise<MissingPropAnalysis> {
     // Additional safety check for directories
     const fileStat = statSync(file);
     if (!fileStat.isFile()) {
       console.warn(`Skipping non-file: ${file}`);
-      return { missingProps: [], totalInstances: 0 };
+      return { missingProps: [], uncertain: [], totalInstances: 0, edits: [] };
     }
 
     let content: string;
@@ -207,130 +1174,804 @@ export class JSXPropAnalyzer {
       const maybeErr = re as unknown as NodeJS.ErrnoException;
       if (maybeErr.code === 'EISDIR') {
         console.warn(`Skipping directory (EISDIR): ${file}`);
-        return { missingProps: [], totalInstances: 0 };
+        return { missingProps: [], uncertain: [], totalInstances: 0, edits: [] };
       }
       throw re;
     }
 
     let ast;
     try {
-      ast = parse(content, {
-        sourceType: 'module',
-        plugins: [
-          'jsx',
-          'typescript',
-          'decorators-legacy',
-          'classProperties',
-          'objectRestSpread',
-          'functionBind',
-          'exportDefaultFrom',
-          'exportNamespaceFrom',
-          'dynamicImport',
-          'nullishCoalescingOperator',
-          'optionalChaining',
-        ],
-      });
+      ast = parseSource(content);
+    } catch (error) {
+      console.error(`Failed to parse ${file}:`, error);
+      return { missingProps: [], uncertain: [], totalInstances: 0, edits: [] };
+    }
+
+    return this.traverseForMissingProps(
+      ast,
+      file,
+      resolver,
+      parseComponentFilter(componentName),
+      requiredProps,
+      spreadPolicy,
+      fixAttribute ? { content, attribute: fixAttribute } : undefined
+    );
+  }
+
+  /**
+   * Traverse AST to find missing props
+   */
+  private traverseForMissingProps(
+    ast: t.File,
+    file: string,
+    resolver: ModuleResolver,
+    filter: ComponentFilter,
+    requiredProps: RequiredProps,
+    spreadPolicy: SpreadPolicy,
+    fix?: { content: string; attribute: string }
+  ): MissingPropAnalysis {
+    const missingProps: MissingPropUsage[] = [];
+    const uncertain: MissingPropUsage[] = [];
+    const edits: TextEdit[] = [];
+    let totalInstances = 0;
+    const imports = collectImports(ast);
+
+    const traverseDefault = this.traverseDefault;
+    traverseDefault(ast, {
+      JSXElement: (path: NodePath<t.JSXElement>) => {
+        const openingElement = path.node.openingElement;
+        if (
+          !t.isJSXIdentifier(openingElement.name) &&
+          !t.isJSXMemberExpression(openingElement.name)
+        )
+          return;
+
+        const { full: fullName, local: localName } = this.getJSXName(
+          openingElement.name as t.JSXIdentifier | t.JSXMemberExpression
+        );
+        const identity = resolveJSXIdentity(fullName, imports);
+        if (!matchesJSXUsage(filter, fullName, localName, identity, file)) return;
+
+        // Count total instances
+        totalInstances++;
+
+        // Analyze props for this element
+        const definition = this.resolveUsageDefinition(path, file, fullName, identity, resolver);
+        const propAnalysis = this.analyzeElementProps(
+          path,
+          this.requiredPropsFor(requiredProps, definition)
+        );
+        if (propAnalysis.missingProps.length === 0) return;
+
+        const loc = openingElement.loc;
+        const usage: MissingPropUsage = {
+          componentName: localName,
+          file,
+          line: loc?.start.line || 0,
+          column: loc?.start.column || 0,
+          existingProps: propAnalysis.existingProps,
+          missingProps: propAnalysis.missingProps,
+          ...identity,
+          definitionFile: definition?.file,
+        };
+        const { unresolvedSpreads } = propAnalysis;
+        if (unresolvedSpreads.length > 0 && spreadPolicy !== 'assumeMissing') {
+          if (spreadPolicy === 'report') uncertain.push({ ...usage, unresolvedSpreads });
+          return;
+        }
+
+        missingProps.push(usage);
+        const edit = fix && getAttributeInsertEdit(openingElement, fix.content, fix.attribute);
+        if (edit) edits.push(edit);
+      },
+    });
+
+    return {
+      missingProps,
+      uncertain,
+      totalInstances,
+      edits,
+      ...(fix && { sourceHash: hashContent(fix.content) }),
+    };
+  }
+
+  /**
+   * Analyze props of a JSX element to check for required props. Spreads whose keys can be
+   * resolved contribute those keys; the others are listed in `unresolvedSpreads`.
+   */
+  private analyzeElementProps(
+    path: NodePath<t.JSXElement>,
+    requiredProps: string[]
+  ): {
+    existingProps: string[];
+    missingProps: string[];
+    unresolvedSpreads: string[];
+  } {
+    const existingProps: string[] = [];
+    const unresolvedSpreads: string[] = [];
+
+    for (const attribute of path.node.openingElement.attributes) {
+      if (t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name)) {
+        existingProps.push(attribute.name.name);
+      } else if (t.isJSXSpreadAttribute(attribute)) {
+        const keys = this.resolveSpreadKeys(path.scope, attribute.argument);
+        if (keys) {
+          existingProps.push(...keys);
+        } else {
+          existingProps.push('...spread');
+          unresolvedSpreads.push(this.stringifyDefault(attribute.argument));
+        }
+      }
+    }
+
+    const missingProps = requiredProps.filter((propName) => !existingProps.includes(propName));
+    return { existingProps, missingProps, unresolvedSpreads };
+  }
+
+  /**
+   * Keys of a spread argument that is an object literal, or a `const` bound to one that is
+   * never assigned to, following nested spreads. Undefined when the keys cannot be known.
+   */
+  private resolveSpreadKeys(
+    scope: Scope,
+    expression: t.Node | null | undefined,
+    seen: Set<t.Node> = new Set()
+  ): string[] | undefined {
+    if (t.isTSAsExpression(expression) || t.isTSSatisfiesExpression(expression)) {
+      return this.resolveSpreadKeys(scope, expression.expression, seen);
+    }
+
+    if (t.isIdentifier(expression)) {
+      const binding = scope.getBinding(expression.name);
+      if (!binding || binding.kind !== 'const' || seen.has(binding.path.node)) return undefined;
+      const declarator = binding.path.node;
+      if (!t.isVariableDeclarator(declarator) || !t.isIdentifier(declarator.id)) return undefined;
+      // `options.alt = ...` adds keys the declaration does not show
+      const mutated = binding.referencePaths.some((reference) => {
+        const parent = reference.parentPath;
+        return (
+          parent?.isMemberExpression({ object: reference.node }) &&
+          parent.parentPath?.isAssignmentExpression({ left: parent.node })
+        );
+      });
+      if (mutated) return undefined;
+      seen.add(declarator);
+      return this.resolveSpreadKeys(binding.path.scope, declarator.init, seen);
+    }
+
+    if (!t.isObjectExpression(expression)) return undefined;
+    const keys: string[] = [];
+    for (const property of expression.properties) {
+      if (t.isSpreadElement(property)) {
+        const nested = this.resolveSpreadKeys(scope, property.argument, seen);
+        if (!nested) return undefined;
+        keys.push(...nested);
+      } else if (!property.computed && t.isIdentifier(property.key)) {
+        keys.push(property.key.name);
+      } else if (!property.computed && t.isStringLiteral(property.key)) {
+        keys.push(property.key.value);
+      } else {
+        return undefined;
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Rename a prop at every JSX usage of a component, and optionally in the component's own
+   * declaration. Only the renamed tokens change, so formatting elsewhere is preserved.
+   * Files are written only when `options.write` is set and `options.canWrite` accepts all
+   * of them; the diff is returned either way.
+   */
+  async renameProp(
+    componentName: string,
+    from: string,
+    to: string,
+    directory: string = '.',
+    options: RenamePropOptions = {}
+  ): Promise<RenamePropResult> {
+    for (const name of [from, to]) {
+      if (!isValidPropName(name)) throw new Error(`Invalid prop name: ${name}`);
+    }
+    if (from === to) throw new Error('The new prop name must differ from the old one');
+
+    const root = isAbsolute(directory) ? directory : resolve(directory);
+    const filterName = this.qualifyFilter(
+      options.importSource ? `${options.importSource}#${componentName}` : componentName,
+      root
+    );
+    const { source } = parseComponentFilter(filterName);
+    // Usages import a path-qualified component by specifiers relative to their own file, so
+    // they are matched by the declaration they resolve to instead
+    const pathQualified = source !== undefined && isAbsolute(source);
+    const definitions =
+      options.updateDefinition || pathQualified
+        ? await this.getComponentProps(filterName, root)
+        : [];
+    const files = await this.getFiles(root);
+    const changes = new Map<string, FileRename>();
+    const changeFor = (file: string) => {
+      let change = changes.get(file);
+      if (!change) {
+        change = { edits: [], callSites: 0, definitionEdits: 0 };
+        changes.set(file, change);
+      }
+      return change;
+    };
+
+    const conflicts: RenameConflict[] = [];
+    const results = await this.runFileTasks<PropRenameAnalysis>(files, {
+      kind: 'renameProp',
+      componentName: filterName,
+      ...(pathQualified && {
+        definitions: definitions.map((d) => `${d.file}#${d.componentName}`),
+      }),
+      from,
+      to,
+    });
+    results.forEach((result, index) => {
+      if (!result) return;
+      conflicts.push(...result.conflicts);
+      if (result.edits.length === 0) return;
+      const change = changeFor(files[index]);
+      change.edits.push(...result.edits);
+      change.callSites += result.edits.length;
+      change.sourceHash = result.sourceHash;
+    });
+
+    const warnings: string[] = [];
+    if (options.updateDefinition) {
+      warnings.push(...this.renameInDefinitions(definitions, filterName, from, to, changeFor));
+    }
+
+    const diffs = this.commitEdits(changes, root, Boolean(options.write), options.canWrite);
+    const fileSummaries = [...changes].map(([file, { callSites, definitionEdits }]) => ({
+      file,
+      callSites,
+      definitionEdits,
+    }));
+    return {
+      diff: diffs.map(({ diff }) => diff).join(''),
+      files: fileSummaries,
+      conflicts,
+      warnings,
+      written: Boolean(options.write) && diffs.length > 0,
+      summary: {
+        filesChanged: diffs.length,
+        callSitesRenamed: fileSummaries.reduce((total, f) => total + f.callSites, 0),
+        definitionEdits: fileSummaries.reduce((total, f) => total + f.definitionEdits, 0),
+      },
+    };
+  }
+
+  /**
+   * Apply each file's edits in memory and return per-file unified diffs with paths relative to
+   * `root`. With `write`, the files are written once `canWrite` has accepted every one of them.
+   *
+   * Edits may come from results indexed before a pending change was applied, so a file whose
+   * content no longer has the hash its edits were computed from fails the whole call.
+   */
+  private commitEdits(
+    editsByFile: Map<string, FileEdits>,
+    root: string,
+    write: boolean,
+    canWrite?: (file: string) => boolean
+  ): { file: string; diff: string }[] {
+    const updated = [...editsByFile].map(([file, { edits, sourceHash }]) => {
+      const before = readFileSync(file, 'utf-8');
+      if (sourceHash !== undefined && hashContent(before) !== sourceHash) {
+        throw new Error(`${file} changed while it was being analyzed; run the request again`);
+      }
+      const after = applyTextEdits(before, edits);
+      return { file, after, diff: createUnifiedDiff(relative(root, file), before, after) };
+    });
+
+    if (write) {
+      const refused = updated.filter(({ file }) => !(canWrite?.(file) ?? true));
+      if (refused.length > 0) {
+        throw new Error(
+          `Refusing to write outside the allowed roots: ${refused.map((u) => u.file).join(', ')}`
+        );
+      }
+      for (const { file, after } of updated) writeFileSync(file, after, 'utf-8');
+    }
+    return updated.map(({ file, diff }) => ({ file, diff }));
+  }
+
+  /**
+   * Add the definition-side edits of a rename for the declarations matching `componentName`,
+   * returning warnings for the parts that could not be renamed automatically.
+   */
+  private renameInDefinitions(
+    definitions: ComponentAnalysis[],
+    componentName: string,
+    from: string,
+    to: string,
+    changeFor: (file: string) => FileRename
+  ): string[] {
+    const warnings: string[] = [];
+    if (definitions.length === 0) {
+      warnings.push(`No declaration of ${componentName} found; only usages were renamed`);
+    }
+
+    for (const definition of definitions) {
+      // `withTheme(Card)` takes Card's props, so rename them in Card
+      const name = definition.wrappedComponent ?? definition.componentName;
+      const location = `${name} (${definition.file})`;
+      if (this.getDeclaredProps(definition).has(to)) {
+        warnings.push(`${location} already declares '${to}'; its declaration was not changed`);
+        continue;
+      }
+
+      const declaration = definition.propDefinitions?.find((prop) => prop.name === from);
+      const typeName = (name?: string) => (name && /^[\w$]+$/.test(name) ? name : undefined);
+      const content = readFileSync(definition.file, 'utf-8');
+      const ast = parseSource(content);
+      const { edits, found, typeMembers, sharedTypes } = getDefinitionRenameEdits(
+        ast,
+        name,
+        from,
+        to,
+        {
+          propsType: typeName(definition.propsInterface),
+          declaringType: typeName(declaration?.declaredIn),
+        },
+        this.isWrapper
+      );
+      if (!found) {
+        warnings.push(`Cannot locate the declaration of ${location}; it was not changed`);
+        continue;
+      }
+      if (sharedTypes.length > 0) {
+        const shared = sharedTypes.join(', ');
+        warnings.push(
+          `'${from}' of ${location} is declared in ${shared}, which other components may use; it was not changed there`
+        );
+      } else if (
+        // Members only declared in `propTypes` were renamed along with its keys
+        declaration &&
+        typeMembers === 0 &&
+        !declaration.declaredIn.endsWith('.propTypes')
+      ) {
+        const declaredIn = declaration.declaredIn;
+        warnings.push(`'${from}' of ${location} is declared in ${declaredIn}; rename it there`);
+      }
+      const change = changeFor(definition.file);
+      change.edits.push(...edits);
+      change.definitionEdits += edits.length;
+      change.sourceHash ??= hashContent(content);
+    }
+    return warnings;
+  }
+
+  /**
+   * Attribute renames for the JSX usages of a component in one file. With `task.definitions`,
+   * usages match by the declaration they resolve to rather than by name.
+   */
+  private analyzeFileForRename(
+    task: Extract<FileTask, { kind: 'renameProp' }>,
+    resolver: ModuleResolver
+  ): PropRenameAnalysis {
+    const { file, componentName, from, to } = task;
+    const definitions = task.definitions && new Set(task.definitions);
+    const edits: TextEdit[] = [];
+    const conflicts: RenameConflict[] = [];
+    let content: string;
+    let ast;
+    try {
+      content = readFileSync(file, 'utf-8');
+      ast = parseSource(content);
+    } catch (error) {
+      console.error(`Failed to parse ${file}:`, error);
+      return { edits, conflicts };
+    }
+
+    const imports = collectImports(ast);
+    const filter = parseComponentFilter(componentName);
+    const traverseDefault = this.traverseDefault;
+    traverseDefault(ast, {
+      JSXElement: (path: NodePath<t.JSXElement>) => {
+        const element = path.node.openingElement;
+        const { name } = element;
+        if (!t.isJSXIdentifier(name) && !t.isJSXMemberExpression(name)) return;
+        const { full: fullName, local: localName } = this.getJSXName(name);
+        const identity = resolveJSXIdentity(fullName, imports);
+        if (definitions) {
+          const definition = this.resolveUsageDefinition(path, file, fullName, identity, resolver);
+          if (!definition || !definitions.has(`${definition.file}#${definition.name}`)) return;
+        } else if (!matchesJSXUsage(filter, fullName, localName, identity, file)) {
+          return;
+        }
+
+        const edit = getAttributeRenameEdit(element, from, to);
+        if (edit === 'conflict') {
+          const loc = element.loc;
+          conflicts.push({
+            componentName: fullName,
+            file,
+            line: loc?.start.line || 0,
+            column: loc?.start.column || 0,
+            reason: `already passes '${to}'`,
+          });
+        } else if (edit) {
+          edits.push(edit);
+        }
+      },
+    });
+    return { edits, conflicts, sourceHash: hashContent(content) };
+  }
+
+  /**
+   * Check usages against conditional prop rules. A rule applies to each usage of its
+   * component for which `when` holds and `unless` does not; usages it applies to that lack
+   * the required prop are violations. As in `findComponentsWithoutProp`, resolvable spreads
+   * count as passing their keys and other spreads are handled per `options.spreadPolicy`.
+   */
+  async checkPropRules(
+    rules: PropRule[],
+    directory: string = '.',
+    options: PropRulesOptions = {}
+  ): Promise<PropRulesResult> {
+    for (const rule of rules) {
+      if (!isValidPropName(rule.requiredProp)) {
+        throw new Error(`Invalid prop name: ${rule.requiredProp}`);
+      }
+    }
+    const identified = this.identifyRules(
+      rules,
+      (rule) => `${rule.component}:${rule.requiredProp}`
+    );
+
+    const files = await this.getFiles(directory);
+    const results = await this.runFileTasks<PropRulesAnalysis>(files, {
+      kind: 'propRules',
+      rules: this.qualifyRules(identified, directory),
+      spreadPolicy: options.spreadPolicy ?? 'report',
+    });
+
+    const violations: PropRuleViolation[] = [];
+    const uncertainViolations: PropRuleViolation[] = [];
+    const summary = identified.map(({ id }) => ({ id, instances: 0, violations: 0, uncertain: 0 }));
+    for (const result of results) {
+      if (!result) continue;
+      violations.push(...result.violations);
+      uncertainViolations.push(...result.uncertain);
+      result.instances.forEach((count, index) => (summary[index].instances += count));
+    }
+    const ruleIndex = new Map(identified.map((rule, index) => [rule.id, index]));
+    for (const violation of violations) summary[ruleIndex.get(violation.ruleId)!].violations++;
+    for (const violation of uncertainViolations) {
+      summary[ruleIndex.get(violation.ruleId)!].uncertain++;
+    }
+
+    return {
+      violations,
+      uncertainViolations,
+      summary: {
+        rules: summary,
+        totalViolations: violations.length,
+        uncertainCount: uncertainViolations.length,
+      },
+    };
+  }
+
+  private analyzeFileForRules(
+    file: string,
+    rules: (PropRule & { id: string })[],
+    spreadPolicy: SpreadPolicy
+  ): PropRulesAnalysis {
+    const violations: PropRuleViolation[] = [];
+    const uncertain: PropRuleViolation[] = [];
+    const instances = rules.map(() => 0);
+    let ast;
+    try {
+      ast = parseSource(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      console.error(`Failed to parse ${file}:`, error);
+      return { violations, uncertain, instances };
+    }
+
+    const imports = collectImports(ast);
+    const filters = rules.map((rule) => parseComponentFilter(rule.component));
+    const traverseDefault = this.traverseDefault;
+    traverseDefault(ast, {
+      JSXElement: (path: NodePath<t.JSXElement>) => {
+        const opening = path.node.openingElement;
+        rules.forEach((rule, index) => {
+          if (!this.matchesElement(opening, filters[index], file, imports)) return;
+          const analysis = this.analyzeElementProps(path, [rule.requiredProp]);
+          const holds = (condition?: PropRuleCondition) =>
+            condition !== undefined &&
+            this.matchesCondition(path, condition, analysis.existingProps, file, imports);
+          if ((rule.when && !holds(rule.when)) || holds(rule.unless)) return;
+
+          instances[index]++;
+          if (analysis.missingProps.length === 0) return;
+          const { full: fullName, local: localName } = this.getJSXName(
+            opening.name as t.JSXIdentifier | t.JSXMemberExpression
+          );
+          const loc = opening.loc;
+          const violation: PropRuleViolation = {
+            ruleId: rule.id,
+            ...(rule.message !== undefined && { message: rule.message }),
+            componentName: localName,
+            file,
+            line: loc?.start.line || 0,
+            column: loc?.start.column || 0,
+            existingProps: analysis.existingProps,
+            missingProps: analysis.missingProps,
+            ...resolveJSXIdentity(fullName, imports),
+          };
+          const { unresolvedSpreads } = analysis;
+          if (unresolvedSpreads.length > 0 && spreadPolicy !== 'assumeMissing') {
+            if (spreadPolicy === 'report') uncertain.push({ ...violation, unresolvedSpreads });
+            return;
+          }
+          violations.push(violation);
+        });
+      },
+    });
+    return { violations, uncertain, instances };
+  }
+
+  /**
+   * Check usages against a set of project rules in one pass over the files, grouping the
+   * findings by rule. Conditions and spreads are evaluated as in `checkPropRules`; values
+   * only known at runtime are never reported by allowed-values rules.
+   */
+  async auditProject(
+    rules: AuditRule[],
+    directory: string = '.',
+    options: PropRulesOptions = {}
+  ): Promise<AuditResult> {
+    for (const rule of rules) {
+      if (!isValidPropName(rule.prop)) throw new Error(`Invalid prop name: ${rule.prop}`);
+    }
+    const identified: IdentifiedAuditRule[] = this.identifyRules(
+      rules,
+      (rule) => `${rule.type}:${rule.component}:${rule.prop}`
+    ).map((rule) => ({ ...rule, severity: rule.severity ?? 'error' }));
+
+    const files = await this.getFiles(directory);
+    const results = await this.runFileTasks<AuditAnalysis>(files, {
+      kind: 'audit',
+      rules: this.qualifyRules(identified, directory),
+      spreadPolicy: options.spreadPolicy ?? 'report',
+    });
+
+    const grouped: AuditRuleResult[] = identified.map((rule) => ({
+      id: rule.id,
+      type: rule.type,
+      severity: rule.severity,
+      component: rule.component,
+      prop: rule.prop,
+      findings: [],
+      uncertainFindings: [],
+    }));
+    for (const result of results) {
+      if (!result) continue;
+      result.findings.forEach((findings, index) => grouped[index].findings.push(...findings));
+      result.uncertain.forEach((findings, index) =>
+        grouped[index].uncertainFindings.push(...findings)
+      );
+    }
+
+    const countFindings = (severity: RuleSeverity) =>
+      grouped
+        .filter((rule) => rule.severity === severity)
+        .reduce((sum, rule) => sum + rule.findings.length, 0);
+    return {
+      rules: grouped,
+      summary: {
+        filesScanned: files.length,
+        totalFindings: grouped.reduce((sum, rule) => sum + rule.findings.length, 0),
+        errors: countFindings('error'),
+        warnings: countFindings('warning'),
+        infos: countFindings('info'),
+        uncertainCount: grouped.reduce((sum, rule) => sum + rule.uncertainFindings.length, 0),
+      },
+    };
+  }
+
+  private analyzeFileForAudit(
+    file: string,
+    rules: IdentifiedAuditRule[],
+    spreadPolicy: SpreadPolicy
+  ): AuditAnalysis {
+    const findings: AuditFinding[][] = rules.map(() => []);
+    const uncertain: AuditFinding[][] = rules.map(() => []);
+    let ast;
+    try {
+      ast = parseSource(readFileSync(file, 'utf-8'));
     } catch (error) {
       console.error(`Failed to parse ${file}:`, error);
-      return { missingProps: [], totalInstances: 0 };
+      return { findings, uncertain };
     }
 
-    return this.traverseForMissingProps(ast, file, componentName, requiredProp);
-  }
-
-  /**
-   * Traverse AST to find missing props
-   */
-  private traverseForMissingProps(
-    ast: t.File,
-    file: string,
-    componentName: string,
-    requiredProp: string
-  ): {
-    missingProps: Array<{
-      componentName: string;
-      file: string;
-      line: number;
-      column: number;
-      existingProps: string[];
-    }>;
-    totalInstances: number;
-  } {
-    const missingProps: Array<{
-      componentName: string;
-      file: string;
-      line: number;
-      column: number;
-      existingProps: string[];
-    }> = [];
-    let totalInstances = 0;
-
+    const imports = collectImports(ast);
+    const filters = rules.map((rule) => parseComponentFilter(rule.component));
     const traverseDefault = this.traverseDefault;
     traverseDefault(ast, {
       JSXElement: (path: NodePath<t.JSXElement>) => {
-        const openingElement = path.node.openingElement;
-        if (
-          !t.isJSXIdentifier(openingElement.name) &&
-          !t.isJSXMemberExpression(openingElement.name)
-        )
-          return;
-
-        const { full: fullName, local: localName } = this.getJSXName(
-          openingElement.name as t.JSXIdentifier | t.JSXMemberExpression
-        );
-        if (!(fullName === componentName || localName === componentName)) return;
-
-        // Count total instances
-        totalInstances++;
-
-        // Analyze props for this element
-        const propAnalysis = this.analyzeElementProps(openingElement, requiredProp);
-
-        if (!propAnalysis.hasRequiredProp) {
-          const loc = openingElement.loc;
-          missingProps.push({
+        const opening = path.node.openingElement;
+        rules.forEach((rule, index) => {
+          if (!this.matchesElement(opening, filters[index], file, imports)) return;
+          const analysis = this.analyzeElementProps(path, [rule.prop]);
+          const holds = (condition?: PropRuleCondition) =>
+            condition !== undefined &&
+            this.matchesCondition(path, condition, analysis.existingProps, file, imports);
+          if ((rule.when && !holds(rule.when)) || holds(rule.unless)) return;
+
+          const { full: fullName, local: localName } = this.getJSXName(
+            opening.name as t.JSXIdentifier | t.JSXMemberExpression
+          );
+          const loc = opening.loc;
+          const finding = (description: string): AuditFinding => ({
             componentName: localName,
             file,
             line: loc?.start.line || 0,
             column: loc?.start.column || 0,
-            existingProps: propAnalysis.existingProps,
+            message: rule.message ?? description,
+            ...resolveJSXIdentity(fullName, imports),
           });
-        }
+
+          if (rule.type === 'required-prop') {
+            if (analysis.missingProps.length === 0) return;
+            const { unresolvedSpreads } = analysis;
+            const missing = finding(`${fullName} is missing '${rule.prop}'`);
+            if (unresolvedSpreads.length > 0 && spreadPolicy !== 'assumeMissing') {
+              if (spreadPolicy === 'report') {
+                uncertain[index].push({ ...missing, unresolvedSpreads });
+              }
+              return;
+            }
+            findings[index].push(missing);
+          } else if (rule.type === 'forbidden-prop') {
+            if (analysis.existingProps.includes(rule.prop)) {
+              findings[index].push(finding(`${fullName} must not pass '${rule.prop}'`));
+            }
+          } else {
+            const value = this.getConstantAttributeValue(opening, rule.prop);
+            if (value === undefined || rule.values.includes(value)) return;
+            const allowed = rule.values.map((allowedValue) => JSON.stringify(allowedValue));
+            findings[index].push({
+              ...finding(
+                `${fullName} passes ${JSON.stringify(value)} for '${rule.prop}'; allowed: ${allowed.join(', ')}`
+              ),
+              value,
+            });
+          }
+        });
       },
     });
+    return { findings, uncertain };
+  }
 
-    return { missingProps, totalInstances };
+  /**
+   * Give every rule an id: its own, which must be unique, or `defaultId`, numbered `:2`, `:3`…
+   * when several rules share it or a rule already uses it.
+   */
+  private identifyRules<R extends { id?: string }>(
+    rules: R[],
+    defaultId: (rule: R) => string
+  ): (R & { id: string })[] {
+    const used = new Set<string>();
+    for (const { id } of rules) {
+      if (id === undefined) continue;
+      if (used.has(id)) throw new Error(`Duplicate rule id: ${id}`);
+      used.add(id);
+    }
+    return rules.map((rule) => {
+      if (rule.id !== undefined) return { ...rule, id: rule.id };
+      const base = defaultId(rule);
+      let id = base;
+      for (let n = 2; used.has(id); n++) id = `${base}:${n}`;
+      used.add(id);
+      return { ...rule, id };
+    });
   }
 
   /**
-   * Analyze props of a JSX element to check for required prop
+   * Whether a JSX opening element renders a component matching `filter`.
    */
-  private analyzeElementProps(
-    openingElement: t.JSXOpeningElement,
-    requiredProp: string
-  ): {
-    existingProps: string[];
-    hasRequiredProp: boolean;
-  } {
-    const existingProps: string[] = [];
-    let hasRequiredProp = false;
+  private matchesElement(
+    opening: t.JSXOpeningElement,
+    filter: ComponentFilter,
+    file: string,
+    imports: Map<string, ImportBinding>
+  ): boolean {
+    if (!t.isJSXIdentifier(opening.name) && !t.isJSXMemberExpression(opening.name)) return false;
+    const { full: fullName, local: localName } = this.getJSXName(opening.name);
+    const identity = resolveJSXIdentity(fullName, imports);
+    return matchesJSXUsage(filter, fullName, localName, identity, file);
+  }
 
-    for (const attribute of openingElement.attributes) {
-      if (t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name)) {
-        const propName = attribute.name.name;
-        existingProps.push(propName);
-        if (propName === requiredProp) {
-          hasRequiredProp = true;
-        }
-      } else if (t.isJSXSpreadAttribute(attribute)) {
-        existingProps.push('...spread');
-        // Note: We can't determine if spread contains the required prop
-        // so we'll assume it might and not flag this as missing
-        hasRequiredProp = true;
+  /**
+   * Evaluate a rule condition against an element; `existingProps` are the props it passes,
+   * including resolved spread keys.
+   */
+  private matchesCondition(
+    path: NodePath<t.JSXElement>,
+    condition: PropRuleCondition,
+    existingProps: string[],
+    file: string,
+    imports: Map<string, ImportBinding>
+  ): boolean {
+    if (condition.hasProps?.some((prop) => !existingProps.includes(prop))) return false;
+    for (const [prop, expected] of Object.entries(condition.propValues ?? {})) {
+      if (this.getConstantAttributeValue(path.node.openingElement, prop) !== expected) {
+        return false;
+      }
+    }
+    if (condition.inside !== undefined) {
+      const filter = parseComponentFilter(condition.inside);
+      const ancestor = path.findParent(
+        (parent) =>
+          parent.isJSXElement() &&
+          this.matchesElement(parent.node.openingElement, filter, file, imports)
+      );
+      if (!ancestor) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Constant value an element passes for a prop: `true` for a bare attribute, otherwise a
+   * string, number or boolean literal. Undefined when the prop is absent, its value is only
+   * known at runtime, or a later spread may override it.
+   */
+  private getConstantAttributeValue(
+    opening: t.JSXOpeningElement,
+    name: string
+  ): string | number | boolean | undefined {
+    let value: string | number | boolean | undefined;
+    for (const attribute of opening.attributes) {
+      if (t.isJSXSpreadAttribute(attribute)) {
+        value = undefined;
+        continue;
+      }
+      if (!t.isJSXIdentifier(attribute.name, { name })) continue;
+      const node = t.isJSXExpressionContainer(attribute.value)
+        ? attribute.value.expression
+        : attribute.value;
+      if (node == null) value = true;
+      else if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node)) {
+        value = node.value;
+      } else if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+        value = node.quasis[0].value.cooked ?? undefined;
+      } else if (
+        t.isUnaryExpression(node, { operator: '-' }) &&
+        t.isNumericLiteral(node.argument)
+      ) {
+        value = -node.argument.value;
+      } else {
+        value = undefined;
       }
     }
+    return value;
+  }
+
+  /**
+   * Resolve a relative filter source against the searched directory (the directory of a
+   * searched file), since the per-file analysis only knows the specifiers of each usage.
+   */
+  private qualifyFilter(filter: string, path: string): string {
+    const root = resolve(path);
+    const directory = existsSync(root) && statSync(root).isFile() ? dirname(root) : root;
+    return qualifyComponentFilter(filter, directory);
+  }
 
-    return { existingProps, hasRequiredProp };
+  private qualifyRules<R extends PropRule | AuditRule>(rules: R[], path: string): R[] {
+    const qualifyCondition = (condition: PropRuleCondition): PropRuleCondition =>
+      condition.inside === undefined
+        ? condition
+        : { ...condition, inside: this.qualifyFilter(condition.inside, path) };
+    return rules.map((rule) => ({
+      ...rule,
+      component: this.qualifyFilter(rule.component, path),
+      ...(rule.when && { when: qualifyCondition(rule.when) }),
+      ...(rule.unless && { unless: qualifyCondition(rule.unless) }),
+    }));
   }
 
   private async getFiles(path: string): Promise<string[]> {
@@ -345,9 +1986,13 @@ export class JSXPropAnalyzer {
       }
 
       if (stat.isDirectory()) {
+        const indexed = this.liveIndex?.getFileList(absolutePath);
+        if (indexed) return [...indexed];
+        const generation = this.liveIndex?.generation ?? 0;
+
         const pattern = join(absolutePath, '**/*.{js,jsx,ts,tsx}');
         const files = await glob(pattern, {
-          ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
+          ignore: IGNORED_DIRECTORIES.map((directory) => `**/${directory}/**`),
           nodir: true, // Explicitly exclude directories
         });
 
@@ -367,6 +2012,7 @@ export class JSXPropAnalyzer {
           }
         }
 
+        this.liveIndex?.setFileList(absolutePath, validFiles, generation);
         return validFiles;
       }
 
@@ -379,9 +2025,11 @@ export class JSXPropAnalyzer {
 
   private async analyzeFile(
     filePath: string,
+    resolver: ModuleResolver,
     targetComponent?: string,
     targetProp?: string,
-    includeTypes: boolean = true
+    includeTypes: boolean = true,
+    callSites?: ResolvedCallSite[]
   ): Promise<{ components: ComponentAnalysis[]; propUsages: PropUsage[] }> {
     // Check if the path is actually a file and not a directory
     try {
@@ -417,29 +2065,28 @@ export class JSXPropAnalyzer {
 
     let ast;
     try {
-      ast = parse(content, {
-        sourceType: 'module',
-        plugins: [
-          'jsx',
-          'typescript',
-          'decorators-legacy',
-          'classProperties',
-          'objectRestSpread',
-          'functionBind',
-          'exportDefaultFrom',
-          'exportNamespaceFrom',
-          'dynamicImport',
-          'nullishCoalescingOperator',
-          'optionalChaining',
-        ],
-      });
+      ast = parseSource(content);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to parse ${filePath}: ${msg}`);
     }
 
-    // Track component definitions and their prop interfaces
+    // Track component definitions and their prop interfaces. Explicit annotations win;
+    // `<Component>Props` naming is only a fallback applied after traversal.
     const componentInterfaces = new Map<string, string>();
+    const explicitPropsTypes = new Map<ComponentAnalysis, t.TSType>();
+    // `Component.defaultProps = {...}` and `static defaultProps = {...}`, keyed by component;
+    // likewise for `propTypes`
+    const defaultPropsByComponent = new Map<string, t.ObjectExpression>();
+    const propTypesByComponent = new Map<string, t.ObjectExpression>();
+    const staticObjects = new Map([
+      ['defaultProps', defaultPropsByComponent],
+      ['propTypes', propTypesByComponent],
+    ]);
+    // `export default withTheme(Card)` wraps a component declared elsewhere in the file
+    const exportWrappersByComponent = new Map<string, string[]>();
+    const imports = collectImports(ast);
+    const filter = targetComponent ? parseComponentFilter(targetComponent) : undefined;
 
     // Handle TypeScript/type and JSX traversal using normalized traverse
     const traverseDefault = this.traverseDefault;
@@ -466,19 +2113,89 @@ export class JSXPropAnalyzer {
         }
       },
 
+      // Handle `Component.defaultProps = { ... }` and `Component.propTypes = { ... }`
+      AssignmentExpression: (path: NodePath<t.AssignmentExpression>) => {
+        const { left, right } = path.node;
+        if (
+          t.isMemberExpression(left) &&
+          t.isIdentifier(left.object) &&
+          t.isIdentifier(left.property) &&
+          !left.computed &&
+          t.isObjectExpression(right)
+        ) {
+          staticObjects.get(left.property.name)?.set(left.object.name, right);
+        }
+      },
+
+      // Handle `static defaultProps = { ... }` and `static propTypes = { ... }` on classes
+      ClassProperty: (path: NodePath<t.ClassProperty>) => {
+        const { node } = path;
+        const classNode = path.parentPath.parent;
+        if (
+          node.static &&
+          t.isIdentifier(node.key) &&
+          t.isObjectExpression(node.value) &&
+          (t.isClassDeclaration(classNode) || t.isClassExpression(classNode)) &&
+          classNode.id
+        ) {
+          staticObjects.get(node.key.name)?.set(classNode.id.name, node.value);
+        }
+      },
+
+      // Handle class components extending Component/PureComponent
+      Class: (path: NodePath<t.Class>) => {
+        if (!isComponentClass(path.node)) return;
+
+        const parent = path.parent;
+        const className =
+          path.node.id?.name ??
+          (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)
+            ? parent.id.name
+            : undefined);
+        if (!className) return;
+
+        if (filter && !matchesDefinition(filter, className, filePath)) return;
+
+        const componentAnalysis: ComponentAnalysis = {
+          componentName: className,
+          file: filePath,
+          props: [],
+          propsInterface: undefined,
+        };
+        if (includeTypes) {
+          this.bindPropsType(
+            componentAnalysis,
+            getClassPropsType(path.node),
+            content,
+            explicitPropsTypes
+          );
+        }
+
+        this.findPropsInClassBody(path, componentAnalysis, propUsages, targetProp);
+        components.push(componentAnalysis);
+      },
+
       // Handle function components
       FunctionDeclaration: (path: NodePath<t.FunctionDeclaration>) => {
         const functionName = path.node.id?.name;
         if (!functionName) return;
 
-        if (targetComponent && functionName !== targetComponent) return;
+        if (filter && !matchesDefinition(filter, functionName, filePath)) return;
 
         const componentAnalysis: ComponentAnalysis = {
           componentName: functionName,
           file: filePath,
           props: [],
-          propsInterface: componentInterfaces.get(functionName),
+          propsInterface: undefined,
         };
+        if (includeTypes) {
+          this.bindPropsType(
+            componentAnalysis,
+            getParamPropsType(path.node),
+            content,
+            explicitPropsTypes
+          );
+        }
 
         // Analyze props parameter
         const propsParam = path.node.params[0];
@@ -506,64 +2223,283 @@ export class JSXPropAnalyzer {
         components.push(componentAnalysis);
       },
 
-      // Handle arrow function components
+      // Handle arrow/function expression components, optionally wrapped in memo, forwardRef or HOCs
       VariableDeclarator: (path: NodePath<t.VariableDeclarator>) => {
-        if (!t.isIdentifier(path.node.id) || !t.isArrowFunctionExpression(path.node.init)) {
+        const unwrapped = unwrapComponent(path.node.init, this.isWrapper);
+        if (!t.isIdentifier(path.node.id) || !unwrapped) {
           return;
         }
 
         const componentName = path.node.id.name;
-        if (targetComponent && componentName !== targetComponent) return;
+        if (filter && !matchesDefinition(filter, componentName, filePath)) return;
 
-        const arrowFunc = path.node.init;
         const componentAnalysis: ComponentAnalysis = {
           componentName,
           file: filePath,
           props: [],
-          propsInterface: componentInterfaces.get(componentName),
+          propsInterface: undefined,
         };
+        if (includeTypes) {
+          this.bindPropsType(
+            componentAnalysis,
+            getDeclaratorPropsType(path.node, this.isWrapper),
+            content,
+            explicitPropsTypes
+          );
+        }
+        this.recordWrappers(componentAnalysis, unwrapped.wrappers, unwrapped.target);
 
-        const propsParam = arrowFunc.params[0];
-        if (propsParam && t.isObjectPattern(propsParam)) {
-          this.analyzeObjectPattern(
-            propsParam,
-            componentName,
-            filePath,
+        if (unwrapped.fn) {
+          this.analyzeComponentParams(
+            path,
+            unwrapped.fn,
             componentAnalysis,
             propUsages,
             targetProp
           );
-        } else if (propsParam && t.isIdentifier(propsParam)) {
-          // Look for member access using the actual parameter name
-          this.findPropsInFunctionBody(
-            path,
+        }
+
+        components.push(componentAnalysis);
+      },
+
+      // Handle `export default memo((props) => ...)` and `export default withTheme(Card)`
+      ExportDefaultDeclaration: (path: NodePath<t.ExportDefaultDeclaration>) => {
+        const unwrapped = unwrapComponent(path.node.declaration, this.isWrapper);
+        if (!unwrapped) return;
+
+        if (unwrapped.target) {
+          exportWrappersByComponent.set(unwrapped.target, unwrapped.wrappers);
+          return;
+        }
+        if (!unwrapped.fn) return;
+
+        const fn = unwrapped.fn;
+        const componentName = (t.isFunctionExpression(fn) && fn.id?.name) || 'default';
+        if (filter && !matchesDefinition(filter, componentName, filePath)) return;
+
+        const componentAnalysis: ComponentAnalysis = {
+          componentName,
+          file: filePath,
+          props: [],
+          propsInterface: undefined,
+        };
+        if (includeTypes) {
+          this.bindPropsType(
             componentAnalysis,
-            propUsages,
-            targetProp,
-            propsParam.name
+            getParamPropsType(unwrapped.fn),
+            content,
+            explicitPropsTypes
           );
         }
+        this.recordWrappers(componentAnalysis, unwrapped.wrappers);
+        this.analyzeComponentParams(path, unwrapped.fn, componentAnalysis, propUsages, targetProp);
 
         components.push(componentAnalysis);
       },
 
-      // Handle JSX elements and their props
+      // Handle JSX elements and their props (including those nested in fragments)
       JSXElement: (path: NodePath<t.JSXElement>) => {
-        this.analyzeJSXElement(path, filePath, propUsages, targetComponent, targetProp);
-      },
-      JSXFragment: (path: NodePath<t.JSXFragment>) => {
-        // Handle fragments that might contain JSX elements
-        path.traverse({
-          JSXElement: (innerPath: NodePath<t.JSXElement>) => {
-            this.analyzeJSXElement(innerPath, filePath, propUsages, targetComponent, targetProp);
-          },
-        });
+        this.analyzeJSXElement(
+          path,
+          filePath,
+          propUsages,
+          imports,
+          resolver,
+          filter,
+          targetProp,
+          callSites
+        );
       },
     });
 
+    for (const component of components) {
+      const exportWrappers = exportWrappersByComponent.get(component.componentName);
+      if (exportWrappers) {
+        component.wrappers = [...exportWrappers, ...(component.wrappers ?? [])];
+      }
+
+      const defaultProps = defaultPropsByComponent.get(component.componentName);
+      if (defaultProps) {
+        this.applyDefaultProps(component, defaultProps, propUsages, targetProp);
+      }
+    }
+
+    if (includeTypes) {
+      for (const component of components) {
+        if (!explicitPropsTypes.has(component)) {
+          component.propsInterface = componentInterfaces.get(component.componentName);
+        }
+      }
+      this.attachPropDefinitions(
+        components,
+        filePath,
+        { ast, content },
+        resolver,
+        explicitPropsTypes,
+        propTypesByComponent
+      );
+    }
+
     return { components, propUsages };
   }
 
+  private recordWrappers(component: ComponentAnalysis, wrappers: string[], target?: string) {
+    if (wrappers.length > 0) component.wrappers = wrappers;
+    if (target) component.wrappedComponent = target;
+  }
+
+  /**
+   * Collect props from a render function's first parameter, destructured or accessed by name.
+   */
+  private analyzeComponentParams(
+    path: NodePath<t.Node>,
+    fn: t.Function,
+    componentAnalysis: ComponentAnalysis,
+    propUsages: PropUsage[],
+    targetProp?: string
+  ) {
+    const propsParam = fn.params[0];
+    if (propsParam && t.isObjectPattern(propsParam)) {
+      this.analyzeObjectPattern(
+        propsParam,
+        componentAnalysis.componentName,
+        componentAnalysis.file,
+        componentAnalysis,
+        propUsages,
+        targetProp
+      );
+    } else if (propsParam && t.isIdentifier(propsParam)) {
+      // Look for member access using the actual parameter name
+      this.findPropsInFunctionBody(
+        path,
+        componentAnalysis,
+        propUsages,
+        targetProp,
+        propsParam.name
+      );
+    }
+  }
+
+  /**
+   * Record an explicitly annotated props type. Inline type literals have no name to report
+   * as `propsInterface`, but their members are still expanded into `propDefinitions`.
+   */
+  private bindPropsType(
+    component: ComponentAnalysis,
+    propsType: t.TSType | undefined,
+    content: string,
+    explicitPropsTypes: Map<ComponentAnalysis, t.TSType>
+  ) {
+    if (!propsType) return;
+    explicitPropsTypes.set(component, propsType);
+    if (!t.isTSTypeLiteral(propsType)) {
+      component.propsInterface = printSource(content, propsType);
+    }
+  }
+
+  /**
+   * Expand each component's props interface into its members, following extends clauses,
+   * intersections and imported types. Members declared only in `propTypes` are appended.
+   */
+  private attachPropDefinitions(
+    components: ComponentAnalysis[],
+    filePath: string,
+    module: { ast: t.File; content: string },
+    resolver: ModuleResolver,
+    explicitPropsTypes: Map<ComponentAnalysis, t.TSType>,
+    propTypesByComponent: Map<string, t.ObjectExpression>
+  ) {
+    const typeResolver = new PropTypeResolver(resolver, this.isWrapper);
+    for (const component of components) {
+      const explicitType = explicitPropsTypes.get(component);
+      const propTypes = propTypesByComponent.get(component.componentName);
+      let resolved: ResolvedPropTypes | undefined;
+      if (explicitType) {
+        resolved = typeResolver.resolveTypeNode(
+          filePath,
+          module,
+          explicitType,
+          component.componentName
+        );
+      } else if (component.propsInterface) {
+        resolved = typeResolver.resolveProps(filePath, module, component.propsInterface);
+      }
+
+      if (propTypes) {
+        const schema = typeResolver.resolvePropTypes(
+          filePath,
+          module,
+          propTypes,
+          `${component.componentName}.propTypes`
+        );
+        if (resolved) {
+          const declared = new Set(resolved.props.map((definition) => definition.name));
+          resolved = {
+            props: [...resolved.props, ...schema.props.filter((prop) => !declared.has(prop.name))],
+            unresolved: [...resolved.unresolved, ...schema.unresolved],
+          };
+        } else {
+          resolved = schema;
+        }
+      }
+      if (!resolved) continue;
+
+      component.propDefinitions = resolved.props.map((definition) => {
+        const defaultValue = component.props.find(
+          (prop) => prop.propName === definition.name && prop.defaultValue !== undefined
+        )?.defaultValue;
+        return defaultValue !== undefined ? { ...definition, defaultValue } : definition;
+      });
+      if (resolved.unresolved.length > 0) {
+        component.unresolvedPropTypes = resolved.unresolved;
+      }
+    }
+  }
+
+  /**
+   * Merge `defaultProps` entries into a component's props. Destructuring defaults take
+   * precedence; props only named in `defaultProps` are added as declared props.
+   */
+  private applyDefaultProps(
+    component: ComponentAnalysis,
+    defaultProps: t.ObjectExpression,
+    propUsages: PropUsage[],
+    targetProp?: string
+  ) {
+    for (const property of defaultProps.properties) {
+      if (!t.isObjectProperty(property) || property.computed) continue;
+      const propName = t.isIdentifier(property.key)
+        ? property.key.name
+        : t.isStringLiteral(property.key)
+          ? property.key.value
+          : undefined;
+      if (!propName || (targetProp && propName !== targetProp)) continue;
+
+      const defaultValue = t.isExpression(property.value)
+        ? this.stringifyDefault(property.value)
+        : undefined;
+      const existing = component.props.filter((prop) => prop.propName === propName);
+      if (existing.length > 0) {
+        for (const prop of existing) {
+          prop.defaultValue ??= defaultValue;
+        }
+        continue;
+      }
+
+      const loc = property.loc;
+      const propUsage: PropUsage = {
+        propName,
+        componentName: component.componentName,
+        file: component.file,
+        line: loc?.start.line || 0,
+        column: loc?.start.column || 0,
+        defaultValue,
+      };
+      component.props.push(propUsage);
+      propUsages.push(propUsage);
+    }
+  }
+
   private findPropsInFunctionBody(
     functionPath: NodePath<t.Node>,
     componentAnalysis: ComponentAnalysis,
@@ -597,6 +2533,57 @@ export class JSXPropAnalyzer {
     });
   }
 
+  /**
+   * Collect `this.props.x` accesses and `const { a, b } = this.props` destructuring
+   * anywhere in a class component's body.
+   */
+  private findPropsInClassBody(
+    classPath: NodePath<t.Class>,
+    componentAnalysis: ComponentAnalysis,
+    propUsages: PropUsage[],
+    targetProp: string | undefined
+  ) {
+    const isThisProps = (node: t.Node | null | undefined): boolean =>
+      t.isMemberExpression(node) &&
+      t.isThisExpression(node.object) &&
+      t.isIdentifier(node.property, { name: 'props' }) &&
+      !node.computed;
+
+    classPath.traverse({
+      MemberExpression: (path: NodePath<t.MemberExpression>) => {
+        if (!isThisProps(path.node.object) || !t.isIdentifier(path.node.property)) return;
+        if (path.node.computed) return;
+
+        const propName = path.node.property.name;
+        if (targetProp && propName !== targetProp) return;
+
+        const loc = path.node.loc;
+        const propUsage: PropUsage = {
+          propName,
+          componentName: componentAnalysis.componentName,
+          file: componentAnalysis.file,
+          line: loc?.start.line || 0,
+          column: loc?.start.column || 0,
+        };
+
+        componentAnalysis.props.push(propUsage);
+        propUsages.push(propUsage);
+      },
+      VariableDeclarator: (path: NodePath<t.VariableDeclarator>) => {
+        if (!t.isObjectPattern(path.node.id) || !isThisProps(path.node.init)) return;
+
+        this.analyzeObjectPattern(
+          path.node.id,
+          componentAnalysis.componentName,
+          componentAnalysis.file,
+          componentAnalysis,
+          propUsages,
+          targetProp
+        );
+      },
+    });
+  }
+
   private analyzeObjectPattern(
     pattern: t.ObjectPattern,
     componentName: string,
@@ -617,6 +2604,9 @@ export class JSXPropAnalyzer {
           file: filePath,
           line: loc?.start.line || 0,
           column: loc?.start.column || 0,
+          defaultValue: t.isAssignmentPattern(property.value)
+            ? this.stringifyDefault(property.value.right)
+            : undefined,
         };
 
         componentAnalysis.props.push(propUsage);
@@ -642,8 +2632,11 @@ export class JSXPropAnalyzer {
     path: NodePath<t.JSXElement>,
     filePath: string,
     propUsages: PropUsage[],
-    targetComponent?: string,
-    targetProp?: string
+    imports: Map<string, ImportBinding>,
+    resolver: ModuleResolver,
+    filter?: ComponentFilter,
+    targetProp?: string,
+    callSites?: ResolvedCallSite[]
   ) {
     const openingElement = path.node.openingElement;
 
@@ -655,16 +2648,41 @@ export class JSXPropAnalyzer {
       openingElement.name as t.JSXIdentifier | t.JSXMemberExpression
     );
 
-    if (targetComponent && !(targetComponent === fullName || targetComponent === localName)) return;
+    const identity = resolveJSXIdentity(fullName, imports);
+    const matchesFilter =
+      !filter || matchesJSXUsage(filter, fullName, localName, identity, filePath);
+    if (!matchesFilter && !callSites) return;
 
+    const definition = this.resolveUsageDefinition(path, filePath, fullName, identity, resolver);
     const componentName = fullName;
 
+    if (callSites) {
+      const loc = openingElement.loc;
+      callSites.push({
+        site: {
+          componentName,
+          file: filePath,
+          line: loc?.start.line || 0,
+          column: loc?.start.column || 0,
+          props: openingElement.attributes.map((attribute) =>
+            t.isJSXAttribute(attribute) ? this.getAttributeName(attribute) : '...spread'
+          ),
+          ...(this.hasChildren(path.node) && { hasChildren: true }),
+          ...identity,
+          definitionFile: definition?.file,
+        },
+        definitionName: definition?.name,
+      });
+    }
+    if (!matchesFilter) return;
+
     for (const attribute of openingElement.attributes) {
       if (t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name)) {
         const propName = attribute.name.name;
         if (targetProp && propName !== targetProp) continue;
 
         let value: string | undefined;
+        let valueKind: PropUsage['valueKind'] = 'literal';
         if (attribute.value) {
           if (t.isStringLiteral(attribute.value)) {
             value = attribute.value.value;
@@ -672,6 +2690,10 @@ export class JSXPropAnalyzer {
             // Try to extract readable expression values for common cases
             const expression = attribute.value.expression as t.Expression | null;
             value = this.stringifyExpression(expression);
+            if (!this.isLiteralExpression(expression)) valueKind = 'dynamic';
+          } else {
+            // An element passed as the value, e.g. `icon=<Icon />`
+            valueKind = 'dynamic';
           }
         }
 
@@ -683,6 +2705,9 @@ export class JSXPropAnalyzer {
           line: loc?.start.line || 0,
           column: loc?.start.column || 0,
           value,
+          valueKind,
+          ...identity,
+          definitionFile: definition?.file,
         };
 
         propUsages.push(propUsage);
@@ -695,6 +2720,8 @@ export class JSXPropAnalyzer {
           line: loc?.start.line || 0,
           column: loc?.start.column || 0,
           isSpread: true,
+          ...identity,
+          definitionFile: definition?.file,
         };
 
         propUsages.push(propUsage);
@@ -702,6 +2729,71 @@ export class JSXPropAnalyzer {
     }
   }
 
+  /**
+   * Resolve the declaration a JSX element renders: imported components are followed through
+   * the module resolver, and components bound in the same file resolve to that file.
+   */
+  private resolveUsageDefinition(
+    path: NodePath<t.JSXElement>,
+    filePath: string,
+    fullName: string,
+    identity: ResolvedJSXIdentity,
+    resolver: ModuleResolver
+  ): ResolvedDefinition | undefined {
+    if (identity.importSource !== undefined && identity.importedName !== undefined) {
+      return resolver.resolveDefinition(filePath, identity.importSource, identity.importedName);
+    }
+
+    if (fullName.includes('.')) return undefined;
+    const binding = path.scope.getBinding(fullName);
+    if (!binding || binding.kind === 'module') return undefined;
+    return { file: filePath, name: fullName };
+  }
+
+  /**
+   * Whether an element passes children; whitespace-only text and empty `{}` containers
+   * (e.g. comments) do not count.
+   */
+  private hasChildren(element: t.JSXElement): boolean {
+    return element.children.some((child) => {
+      if (t.isJSXText(child)) return child.value.trim() !== '';
+      if (t.isJSXExpressionContainer(child)) return !t.isJSXEmptyExpression(child.expression);
+      return true;
+    });
+  }
+
+  private getAttributeName(attribute: t.JSXAttribute): string {
+    return t.isJSXIdentifier(attribute.name)
+      ? attribute.name.name
+      : `${attribute.name.namespace.name}:${attribute.name.name.name}`;
+  }
+
+  /**
+   * Whether an expression is a constant written in the source: a string, number, boolean or
+   * null literal, a negated number, or a template literal without substitutions.
+   */
+  private isLiteralExpression(expression?: t.Expression | null): boolean {
+    if (!expression) return false;
+    if (t.isUnaryExpression(expression) && ['-', '+'].includes(expression.operator)) {
+      return t.isNumericLiteral(expression.argument);
+    }
+    if (t.isTemplateLiteral(expression)) return expression.expressions.length === 0;
+    return (
+      t.isStringLiteral(expression) ||
+      t.isNumericLiteral(expression) ||
+      t.isBooleanLiteral(expression) ||
+      t.isNullLiteral(expression)
+    );
+  }
+
+  /**
+   * Readable form of a default value; expressions `stringifyExpression` cannot represent
+   * still count as a default, shown as an ellipsis.
+   */
+  private stringifyDefault(expression: t.Expression): string {
+    return this.stringifyExpression(expression) ?? '…';
+  }
+
   /**
    * Attempt to produce a readable string for common expression node types.
    * Handles Identifier, MemberExpression, CallExpression, ArrowFunctionExpression,
@@ -717,6 +2809,11 @@ export class JSXPropAnalyzer {
 
     if (t.isIdentifier(expression)) return expression.name;
 
+    if (t.isUnaryExpression(expression) && ['-', '+', '!'].includes(expression.operator)) {
+      const argument = this.stringifyExpression(expression.argument);
+      return argument !== undefined ? `${expression.operator}${argument}` : undefined;
+    }
+
     if (t.isMemberExpression(expression)) {
       const obj = this.stringifyExpression(expression.object as t.Expression | null);
       let prop: string | undefined;
@@ -0,0 +1,285 @@
+import { createHash } from 'crypto';
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { dirname, extname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { threadId } from 'worker_threads';
+import { PARSER_OPTIONS } from '../utils/parser.js';
+
+/** Size, mtime and content hash of a file at the time a result was computed */
+interface PresentStamp {
+  file: string;
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+/** A path the result depends on not existing, such as an import candidate that was missing */
+interface AbsentStamp {
+  file: string;
+  absent: true;
+}
+
+type FileStamp = PresentStamp | AbsentStamp;
+
+interface CacheEntry<T> {
+  fingerprint: string;
+  /** The analyzed file first, then every file its result depends on */
+  stamps: FileStamp[];
+  result: T;
+}
+
+function sha1(data: string | Buffer): string {
+  return createHash('sha1').update(data).digest('hex');
+}
+
+let analyzerHash: string | undefined;
+
+/**
+ * Hash of the analyzer's own modules (the built files, or the sources when run from them), so
+ * entries written by any other build are ignored, including unreleased ones.
+ */
+function hashAnalyzerModules(): string {
+  if (analyzerHash) return analyzerHash;
+  const modulePath = fileURLToPath(import.meta.url);
+  const extension = extname(modulePath);
+  // This module lives in `<root>/services`
+  const root = dirname(dirname(modulePath));
+  const hash = createHash('sha1');
+  const visit = (directory: string) => {
+    const entries = readdirSync(directory, { withFileTypes: true }).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        visit(path);
+      } else if (entry.name.endsWith(extension) && !entry.name.endsWith(`.d${extension}`)) {
+        hash.update(path.slice(root.length)).update(readFileSync(path));
+      }
+    }
+  };
+  visit(root);
+  analyzerHash = hash.digest('hex');
+  return analyzerHash;
+}
+
+/** Entries kept per analyzed file, one per distinct set of query arguments */
+const MAX_VARIANTS_PER_FILE = 16;
+
+/** Written in each file's entry directory, so entries of deleted files can be found */
+const SOURCE_FILE = 'source';
+
+/**
+ * Per-user default cache location: `$XDG_CACHE_HOME/jsx-prop-lookup-mcp-server`, falling back
+ * to `~/.cache`. Cached results are derived from source code, so they are not kept in the
+ * shared temp directory.
+ */
+export function defaultCacheDirectory(): string {
+  return join(
+    process.env.XDG_CACHE_HOME || join(homedir(), '.cache'),
+    'jsx-prop-lookup-mcp-server'
+  );
+}
+
+/**
+ * On-disk cache of per-file analysis results. An entry is reused while the analyzed file and
+ * every file it depends on (imported modules, tsconfig files) keep their size and mtime, or
+ * failing that, their content hash, and the paths that were tried and missing while resolving
+ * its imports are still missing. Entries written by another analyzer build, parser
+ * configuration or set of analyzer options are ignored.
+ *
+ * Entries live in one directory per analyzed file, named after the query variant, options
+ * fingerprint and file content hash. Writing an entry removes the file's entries for other
+ * contents or options, and the oldest ones beyond `MAX_VARIANTS_PER_FILE`; the first write of
+ * each instance also removes the entries of files that no longer exist. Directories are created
+ * readable by the current user only.
+ */
+export class AnalysisCache {
+  private readonly fingerprint: string;
+  /** Last known content hash of each file, so shared dependencies are hashed once */
+  private readonly hashes = new Map<string, { size: number; mtimeMs: number; hash: string }>();
+  private swept = false;
+
+  constructor(
+    private readonly directory: string,
+    options: unknown = {}
+  ) {
+    this.fingerprint = sha1(
+      JSON.stringify({ analyzer: hashAnalyzerModules(), parser: PARSER_OPTIONS, options })
+    );
+  }
+
+  /**
+   * The cached result for `file` and `variant`, with the files it depends on, or undefined
+   * when there is no valid entry.
+   */
+  get<T>(file: string, variant: string): { result: T; dependencies: string[] } | undefined {
+    let entry: CacheEntry<T>;
+    try {
+      const prefix = `${sha1(variant)}-${this.fingerprint}-`;
+      const name = readdirSync(this.fileDirectory(file)).find(
+        (n) => n.startsWith(prefix) && n.endsWith('.json')
+      );
+      if (!name) return undefined;
+      entry = JSON.parse(readFileSync(join(this.fileDirectory(file), name), 'utf-8'));
+    } catch (_e) {
+      return undefined;
+    }
+    if (entry.fingerprint !== this.fingerprint || entry.stamps[0]?.file !== file) {
+      return undefined;
+    }
+
+    let touched = false;
+    for (const [index, stamp] of entry.stamps.entries()) {
+      const current = this.stamp(stamp.file, stamp);
+      if (!current) return undefined;
+      if ('absent' in stamp || 'absent' in current) {
+        // A path that was missing only keeps the entry valid while it stays missing
+        if ('absent' in stamp && 'absent' in current) continue;
+        return undefined;
+      }
+      if (current.hash !== stamp.hash) return undefined;
+      if (current.mtimeMs !== stamp.mtimeMs) {
+        // Same content under a new mtime: refresh the stamp so the next lookup skips hashing
+        entry.stamps[index] = current;
+        touched = true;
+      }
+    }
+    if (touched) this.writeEntry(file, variant, entry);
+    return {
+      result: entry.result,
+      dependencies: entry.stamps.slice(1).map((stamp) => stamp.file),
+    };
+  }
+
+  set<T>(file: string, variant: string, result: T, dependencies: string[]) {
+    const stamp = this.stamp(file);
+    if (!stamp || 'absent' in stamp) return;
+    const stamps: FileStamp[] = [stamp];
+    for (const dependency of dependencies) {
+      if (dependency === file) continue;
+      const dependencyStamp = this.stamp(dependency);
+      // A dependency that cannot be read cannot be validated later either
+      if (!dependencyStamp) return;
+      stamps.push(dependencyStamp);
+    }
+    this.writeEntry(file, variant, { fingerprint: this.fingerprint, stamps, result });
+  }
+
+  /**
+   * Current stamp of a file, absent when it does not exist. When `previous` has the same size
+   * and mtime its hash is trusted without reading the file.
+   */
+  private stamp(file: string, previous?: FileStamp): FileStamp | undefined {
+    try {
+      const { size, mtimeMs } = statSync(file);
+      if (
+        previous &&
+        !('absent' in previous) &&
+        previous.size === size &&
+        previous.mtimeMs === mtimeMs
+      ) {
+        return previous;
+      }
+
+      const known = this.hashes.get(file);
+      if (known && known.size === size && known.mtimeMs === mtimeMs) {
+        return { file, size, mtimeMs, hash: known.hash };
+      }
+      const hash = sha1(readFileSync(file));
+      this.hashes.set(file, { size, mtimeMs, hash });
+      return { file, size, mtimeMs, hash };
+    } catch (error) {
+      this.hashes.delete(file);
+      const { code } = error as NodeJS.ErrnoException;
+      return code === 'ENOENT' || code === 'ENOTDIR' ? { file, absent: true } : undefined;
+    }
+  }
+
+  private writeEntry<T>(file: string, variant: string, entry: CacheEntry<T>) {
+    const directory = this.fileDirectory(file);
+    const { hash } = entry.stamps[0] as PresentStamp;
+    const name = `${sha1(variant)}-${this.fingerprint}-${hash}.json`;
+    // Worker threads share the pid, so include the thread id to keep temporary files apart
+    const temporary = join(directory, `${name}.${process.pid}-${threadId}.tmp`);
+    try {
+      if (!this.swept) this.removeDeletedFiles();
+      mkdirSync(directory, { recursive: true, mode: 0o700 });
+      writeFileSync(join(directory, SOURCE_FILE), file, { mode: 0o600 });
+      writeFileSync(temporary, JSON.stringify(entry), { mode: 0o600 });
+      renameSync(temporary, join(directory, name));
+      this.removeStaleEntries(directory, name);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.warn(`Cannot write analysis cache entry for ${file}:`, err.message);
+    }
+  }
+
+  /**
+   * Remove a file's entries for other contents or options than the entry just written, then
+   * the oldest ones beyond the per-file limit.
+   */
+  private removeStaleEntries(directory: string, written: string) {
+    const current = `-${this.fingerprint}-${written.slice(written.lastIndexOf('-') + 1)}`;
+    const kept: { name: string; mtimeMs: number }[] = [];
+    for (const name of readdirSync(directory)) {
+      if (!name.endsWith('.json')) continue;
+      try {
+        if (!name.endsWith(current)) {
+          rmSync(join(directory, name), { force: true });
+        } else if (name !== written) {
+          kept.push({ name, mtimeMs: statSync(join(directory, name)).mtimeMs });
+        }
+      } catch (_e) {
+        // Removed concurrently
+      }
+    }
+    kept.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    for (const { name } of kept.slice(MAX_VARIANTS_PER_FILE - 1)) {
+      rmSync(join(directory, name), { force: true });
+    }
+  }
+
+  /**
+   * Remove the entry directories of analyzed files that no longer exist, and entries left by
+   * versions that kept every entry in the cache directory itself. Other files are left alone,
+   * in case the cache directory is shared.
+   */
+  private removeDeletedFiles() {
+    this.swept = true;
+    let names: string[];
+    try {
+      names = readdirSync(this.directory);
+    } catch (_e) {
+      return;
+    }
+    for (const name of names) {
+      const path = join(this.directory, name);
+      if (/^[0-9a-f]{40}\.json$/.test(name)) {
+        rmSync(path, { force: true });
+        continue;
+      }
+      if (!/^[0-9a-f]{40}$/.test(name)) continue;
+      try {
+        statSync(readFileSync(join(path, SOURCE_FILE), 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          rmSync(path, { recursive: true, force: true });
+        }
+      }
+    }
+  }
+
+  private fileDirectory(file: string): string {
+    return join(this.directory, sha1(file));
+  }
+}
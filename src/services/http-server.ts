@@ -0,0 +1,185 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+export interface HttpServerOptions {
+  /** Address to bind; loopback addresses also reject requests for other host names */
+  host: string;
+  /** 0 picks a free port */
+  port: number;
+  /** Bearer token every request must present; requests are not authenticated when unset */
+  token?: string;
+  /** Builds the MCP server for a new session */
+  createServer: () => McpServer;
+  /**
+   * Sessions without an open request for this long are closed (default: 30 minutes); 0 keeps
+   * them until the client deletes them
+   */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Requests whose responses are still open, including server-sent event streams */
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/** Path the MCP endpoint is served at */
+const MCP_PATH = '/mcp';
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host);
+}
+
+/** Host name of a Host header, without the port */
+function hostName(header: string): string {
+  return header.startsWith('[') ? header.slice(0, header.indexOf(']') + 1) : header.split(':')[0];
+}
+
+function sha256(text: string): Buffer {
+  return createHash('sha256').update(text).digest();
+}
+
+/**
+ * MCP Streamable HTTP endpoint serving several clients at once. Each session gets its own MCP
+ * server from `createServer`, connected to a transport that lives until the client deletes the
+ * session, the session has been idle for `sessionIdleTimeoutMs` or the endpoint is closed.
+ */
+export class McpHttpServer {
+  private readonly sessions = new Map<string, Session>();
+  private httpServer?: Server;
+
+  constructor(private readonly options: HttpServerOptions) {}
+
+  /**
+   * Start listening; resolves with the endpoint URL.
+   */
+  async listen(): Promise<string> {
+    const httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('Error handling MCP HTTP request:', error);
+        if (!res.headersSent) this.reject(res, 500, -32603, 'Internal server error');
+      });
+    });
+    this.httpServer = httpServer;
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+    const { address, port } = httpServer.address() as AddressInfo;
+    const host = address.includes(':') ? `[${address}]` : address;
+    return `http://${host}:${port}${MCP_PATH}`;
+  }
+
+  async close() {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map((session) => this.closeSession(session)));
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_PATH) {
+      this.reject(res, 404, -32601, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+    // A page in a browser could otherwise reach a loopback server through a rebound host name
+    if (isLoopbackHost(this.options.host) && !isLoopbackHost(hostName(req.headers.host ?? ''))) {
+      this.reject(res, 403, -32600, 'Host not allowed');
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.reject(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.reject(res, 404, -32001, 'Session not found');
+        return;
+      }
+      this.trackRequest(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    // Without a session id, only an initialize request is valid; the transport rejects others
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, session);
+      },
+    });
+    const session: Session = { transport, server: this.options.createServer(), openRequests: 0 };
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) this.sessions.delete(transport.sessionId);
+    };
+    await session.server.connect(transport);
+    this.trackRequest(session, res);
+    await transport.handleRequest(req, res);
+    if (!transport.sessionId) await transport.close();
+  }
+
+  /**
+   * Count a request as session activity until its response closes; the idle timeout starts
+   * once no response of the session is open.
+   */
+  private trackRequest(session: Session, res: ServerResponse) {
+    clearTimeout(session.idleTimer);
+    session.openRequests++;
+    res.once('close', () => {
+      session.openRequests--;
+      const timeout = this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+      const id = session.transport.sessionId;
+      if (session.openRequests > 0 || timeout <= 0 || !id || !this.sessions.has(id)) return;
+      // Longer delays overflow setTimeout and would fire at once
+      const delay = Math.min(timeout, MAX_TIMER_DELAY_MS);
+      session.idleTimer = setTimeout(() => {
+        this.sessions.delete(id);
+        this.closeSession(session).catch((error) => {
+          console.error(`Error closing idle MCP session ${id}:`, error);
+        });
+      }, delay);
+      session.idleTimer.unref();
+    });
+  }
+
+  private async closeSession(session: Session) {
+    clearTimeout(session.idleTimer);
+    // Closing the server closes its transport as well
+    await session.server.close();
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const { token } = this.options;
+    if (!token) return true;
+    const header = req.headers.authorization ?? '';
+    const presented = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    // Compare digests so the comparison takes the same time whatever the lengths
+    return timingSafeEqual(sha256(presented), sha256(token));
+  }
+
+  private reject(res: ServerResponse, status: number, code: number, message: string) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
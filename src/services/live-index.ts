@@ -0,0 +1,156 @@
+import { readdirSync, statSync, watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import { basename, isAbsolute, join, relative, sep } from 'path';
+
+interface IndexEntry {
+  dependencies: string[];
+}
+
+/** Quiet period after the last file event before a batch of changes is applied */
+const DEBOUNCE_MS = 100;
+
+/**
+ * In-memory per-file results for a set of watched roots. Results are stored per file and
+ * task key; a change to a file drops its own results and every result that depends on it
+ * (including results whose imports were resolved while it was missing, so creating it drops
+ * them too), and a file being created or deleted drops the cached directory listings.
+ */
+export class LiveIndex<T extends IndexEntry> {
+  private readonly entries = new Map<string, Map<string, T>>();
+  private readonly fileLists = new Map<string, string[]>();
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly pending = new Set<string>();
+  private listingsStale = false;
+  private timer?: NodeJS.Timeout;
+  /** Incremented whenever changes are applied; results computed before then are discarded */
+  private currentGeneration = 0;
+
+  constructor(
+    private readonly roots: string[],
+    private readonly ignoredDirectories: string[],
+    private readonly onChange: (files: string[]) => void
+  ) {}
+
+  start() {
+    for (const root of this.roots) {
+      try {
+        const watcher = watch(root, { recursive: true }, (event, filename) => {
+          if (filename) this.record(event, join(root, filename.toString()));
+        });
+        this.watchers.set(root, watcher);
+      } catch (_e) {
+        // Recursive watching needs Node 20 on Linux; fall back to one watcher per directory
+        this.watchDirectory(root);
+      }
+    }
+  }
+
+  close() {
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+    clearTimeout(this.timer);
+    this.entries.clear();
+    this.fileLists.clear();
+  }
+
+  get(file: string, key: string): T | undefined {
+    return this.covers(file) ? this.entries.get(file)?.get(key) : undefined;
+  }
+
+  get generation(): number {
+    return this.currentGeneration;
+  }
+
+  /**
+   * Store a result computed from the files as they were at `generation`.
+   */
+  set(file: string, key: string, entry: T, generation: number) {
+    if (generation !== this.currentGeneration || !this.covers(file)) return;
+    let byKey = this.entries.get(file);
+    if (!byKey) {
+      byKey = new Map();
+      this.entries.set(file, byKey);
+    }
+    byKey.set(key, entry);
+  }
+
+  getFileList(directory: string): string[] | undefined {
+    return this.covers(directory) ? this.fileLists.get(directory) : undefined;
+  }
+
+  setFileList(directory: string, files: string[], generation: number) {
+    if (generation === this.currentGeneration && this.covers(directory)) {
+      this.fileLists.set(directory, files);
+    }
+  }
+
+  private covers(path: string): boolean {
+    return this.roots.some((root) => {
+      const rel = relative(root, path);
+      return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+    });
+  }
+
+  private watchDirectory(directory: string) {
+    if (this.watchers.has(directory)) return;
+    try {
+      const watcher = watch(directory, (event, filename) => {
+        if (!filename) return;
+        const path = join(directory, filename.toString());
+        this.record(event, path);
+        if (event === 'rename' && this.isDirectory(path)) this.watchDirectory(path);
+      });
+      this.watchers.set(directory, watcher);
+      for (const entry of readdirSync(directory, { withFileTypes: true })) {
+        if (entry.isDirectory() && !this.ignoredDirectories.includes(entry.name)) {
+          this.watchDirectory(join(directory, entry.name));
+        }
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.warn(`Cannot watch ${directory}:`, err.message);
+    }
+  }
+
+  private record(event: string, path: string) {
+    const segments = path.split(sep);
+    if (segments.some((segment) => this.ignoredDirectories.includes(segment))) return;
+
+    this.pending.add(path);
+    // 'rename' covers creation and deletion; either changes directory listings
+    if (event === 'rename') this.listingsStale = true;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+    this.timer.unref();
+  }
+
+  private flush() {
+    const changed = Array.from(this.pending);
+    this.pending.clear();
+    this.currentGeneration++;
+    if (this.listingsStale) {
+      this.fileLists.clear();
+      this.listingsStale = false;
+    }
+
+    for (const file of changed) {
+      this.entries.delete(file);
+      for (const byKey of this.entries.values()) {
+        for (const [key, entry] of byKey) {
+          if (entry.dependencies.includes(file)) byKey.delete(key);
+        }
+      }
+      // A removed or replaced tsconfig changes how imports resolve everywhere
+      if (basename(file) === 'tsconfig.json') this.entries.clear();
+    }
+    this.onChange(changed);
+  }
+
+  private isDirectory(path: string): boolean {
+    try {
+      return statSync(path).isDirectory();
+    } catch (_e) {
+      return false;
+    }
+  }
+}
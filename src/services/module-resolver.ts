@@ -0,0 +1,439 @@
+import * as t from '@babel/types';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { collectImports } from '../utils/imports.js';
+import type { ImportBinding } from '../utils/imports.js';
+import { parseSource } from '../utils/parser.js';
+import { unwrapComponent } from '../utils/props-type.js';
+
+export interface ParsedModule {
+  ast: t.File;
+  content: string;
+}
+
+export interface ResolvedDefinition {
+  /** Absolute path of the file that declares the component */
+  file: string;
+  /** Local name of the declaration in that file ('default' for anonymous default exports) */
+  name: string;
+}
+
+interface TsconfigPaths {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsBase: string;
+  /** The tsconfig file and the files it extends */
+  files: string[];
+}
+
+interface ModuleExports {
+  /** Exported name -> local binding name */
+  local: Map<string, string>;
+  /** Exported name -> re-exported binding of another module */
+  reExports: Map<string, ImportBinding>;
+  /** Sources of `export * from '...'` declarations */
+  starSources: string[];
+  imports: Map<string, ImportBinding>;
+}
+
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Strip comments and trailing commas so tsconfig.json (which is JSONC) can be read with JSON.parse.
+ */
+function parseJsonc(text: string): unknown {
+  let out = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (ch === '\\') {
+        out += text[++i] ?? '';
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      out += '\n';
+    } else if (ch === '/' && text[i + 1] === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+      i++;
+    } else {
+      out += ch;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Resolves import specifiers to source files and follows barrel re-exports
+ * (`export * from`, `export { X } from`) to the file that declares a component.
+ *
+ * Relative specifiers and `tsconfig.json` `compilerOptions.paths`/`baseUrl` aliases are
+ * supported; bare package specifiers are left unresolved. Results are cached for the
+ * lifetime of the instance, so create one resolver per analysis run.
+ */
+export class ModuleResolver {
+  private readonly tsconfigByDir = new Map<string, TsconfigPaths | null>();
+  private readonly exportsByFile = new Map<string, ModuleExports>();
+  private readonly parsedModules = new Map<string, ParsedModule | null>();
+  private readonly definitionCache = new Map<string, ResolvedDefinition | null>();
+  private dependencies?: Set<string>;
+
+  /**
+   * Run `analyze` while recording every module and tsconfig file the resolver consults,
+   * including ones served from its in-memory caches and the missing paths it tried for an
+   * import, so per-file results can be invalidated when a file they depend on changes or
+   * appears.
+   */
+  async collectDependencies<T>(
+    analyze: () => Promise<T>
+  ): Promise<{ result: T; dependencies: string[] }> {
+    const previous = this.dependencies;
+    const dependencies = new Set<string>();
+    this.dependencies = dependencies;
+    try {
+      const result = await analyze();
+      return { result, dependencies: Array.from(dependencies) };
+    } finally {
+      this.dependencies = previous;
+    }
+  }
+
+  /**
+   * Resolve an import specifier as written in `fromFile` to an absolute source file path.
+   */
+  resolveModule(fromFile: string, specifier: string): string | undefined {
+    if (specifier.startsWith('.') || isAbsolute(specifier)) {
+      return this.resolveFile(resolve(dirname(fromFile), specifier));
+    }
+
+    const config = this.findTsconfig(dirname(fromFile));
+    if (!config) return undefined;
+    for (const file of config.files) this.dependencies?.add(file);
+
+    for (const candidate of this.matchPaths(config, specifier)) {
+      const file = this.resolveFile(candidate);
+      if (file) return file;
+    }
+
+    if (config.baseUrl) {
+      return this.resolveFile(resolve(config.baseUrl, specifier));
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the declaration a JSX usage refers to, given the import it came from.
+   * Dotted names (`Foo.Bar` on a default import) cannot be mapped to a declaration.
+   */
+  resolveDefinition(
+    fromFile: string,
+    source: string,
+    importedName: string
+  ): ResolvedDefinition | undefined {
+    if (importedName === '*' || importedName.includes('.')) return undefined;
+
+    const moduleFile = this.resolveModule(fromFile, source);
+    if (!moduleFile) return undefined;
+    return this.resolveExport(moduleFile, importedName);
+  }
+
+  /**
+   * Follow re-exports from `file` until the declaration of `exportName` is found.
+   */
+  resolveExport(
+    file: string,
+    exportName: string,
+    seen: Set<string> = new Set()
+  ): ResolvedDefinition | undefined {
+    const cacheKey = `${file}#${exportName}`;
+    const cached = this.definitionCache.get(cacheKey);
+    if (cached !== undefined) return cached ?? undefined;
+    if (seen.has(cacheKey)) return undefined;
+    seen.add(cacheKey);
+
+    const result = this.lookupExport(file, exportName, seen);
+    this.definitionCache.set(cacheKey, result ?? null);
+    return result;
+  }
+
+  private lookupExport(
+    file: string,
+    exportName: string,
+    seen: Set<string>
+  ): ResolvedDefinition | undefined {
+    const moduleExports = this.getExports(file);
+
+    const localName = moduleExports.local.get(exportName);
+    if (localName !== undefined) {
+      // `import { X } from './x'; export { X };` is a re-export in disguise
+      const imported = moduleExports.imports.get(localName);
+      if (imported) return this.followBinding(file, imported, seen);
+      return { file, name: localName };
+    }
+
+    const reExport = moduleExports.reExports.get(exportName);
+    if (reExport) return this.followBinding(file, reExport, seen);
+
+    if (exportName === 'default') return undefined;
+    for (const source of moduleExports.starSources) {
+      const target = this.resolveModule(file, source);
+      if (!target) continue;
+      const found = this.resolveExport(target, exportName, seen);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse a module once per resolver; returns undefined when it cannot be read or parsed.
+   */
+  getParsedModule(file: string): ParsedModule | undefined {
+    this.dependencies?.add(file);
+    const cached = this.parsedModules.get(file);
+    if (cached !== undefined) return cached ?? undefined;
+
+    let parsed: ParsedModule | null = null;
+    try {
+      const content = readFileSync(file, 'utf-8');
+      parsed = { ast: parseSource(content), content };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.warn(`Cannot parse module ${file}:`, err.message);
+    }
+    this.parsedModules.set(file, parsed);
+    return parsed ?? undefined;
+  }
+
+  private followBinding(
+    fromFile: string,
+    binding: ImportBinding,
+    seen: Set<string>
+  ): ResolvedDefinition | undefined {
+    if (binding.imported === '*') return undefined;
+    const target = this.resolveModule(fromFile, binding.source);
+    if (!target) return undefined;
+    return this.resolveExport(target, binding.imported, seen);
+  }
+
+  private getExports(file: string): ModuleExports {
+    const cached = this.exportsByFile.get(file);
+    if (cached) return cached;
+
+    const moduleExports: ModuleExports = {
+      local: new Map(),
+      reExports: new Map(),
+      starSources: [],
+      imports: new Map(),
+    };
+    this.exportsByFile.set(file, moduleExports);
+
+    const parsed = this.getParsedModule(file);
+    if (!parsed) return moduleExports;
+    const ast = parsed.ast;
+
+    // Type-only imports matter here: barrels re-export props interfaces as well as components
+    moduleExports.imports = collectImports(ast, true);
+
+    for (const statement of ast.program.body) {
+      if (t.isExportAllDeclaration(statement)) {
+        moduleExports.starSources.push(statement.source.value);
+      } else if (t.isExportNamedDeclaration(statement)) {
+        this.collectNamedExport(statement, moduleExports);
+      } else if (t.isExportDefaultDeclaration(statement)) {
+        const declaration = statement.declaration;
+        if (t.isIdentifier(declaration)) {
+          moduleExports.local.set('default', declaration.name);
+        } else if (
+          (t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) &&
+          declaration.id
+        ) {
+          moduleExports.local.set('default', declaration.id.name);
+        } else {
+          // `export default withTheme(Card)` exports Card; any call is treated as a wrapper here
+          const unwrapped = unwrapComponent(declaration, () => true);
+          const fn = unwrapped?.fn;
+          const name = unwrapped?.target ?? (t.isFunctionExpression(fn) ? fn.id?.name : undefined);
+          moduleExports.local.set('default', name ?? 'default');
+        }
+      }
+    }
+
+    return moduleExports;
+  }
+
+  private collectNamedExport(statement: t.ExportNamedDeclaration, moduleExports: ModuleExports) {
+    const declaration = statement.declaration;
+    if (
+      t.isFunctionDeclaration(declaration) ||
+      t.isClassDeclaration(declaration) ||
+      t.isTSInterfaceDeclaration(declaration) ||
+      t.isTSTypeAliasDeclaration(declaration)
+    ) {
+      if (declaration.id) moduleExports.local.set(declaration.id.name, declaration.id.name);
+    } else if (t.isVariableDeclaration(declaration)) {
+      for (const declarator of declaration.declarations) {
+        if (t.isIdentifier(declarator.id)) {
+          moduleExports.local.set(declarator.id.name, declarator.id.name);
+        }
+      }
+    }
+
+    const source = statement.source?.value;
+    for (const specifier of statement.specifiers) {
+      const exported = t.isIdentifier(specifier.exported)
+        ? specifier.exported.name
+        : specifier.exported.value;
+
+      if (t.isExportSpecifier(specifier)) {
+        const local = specifier.local.name;
+        if (source) {
+          moduleExports.reExports.set(exported, { source, imported: local });
+        } else {
+          moduleExports.local.set(exported, local);
+        }
+      } else if (t.isExportNamespaceSpecifier(specifier) && source) {
+        moduleExports.reExports.set(exported, { source, imported: '*' });
+      } else if (t.isExportDefaultSpecifier(specifier) && source) {
+        moduleExports.reExports.set(exported, { source, imported: 'default' });
+      }
+    }
+  }
+
+  /**
+   * Resolve an extensionless or directory path to a source file, TypeScript-style.
+   */
+  private resolveFile(base: string): string | undefined {
+    const candidates = [base];
+    // ESM TypeScript projects import `./Button.js` for `./Button.tsx`
+    const withoutJsExt = base.replace(/\.jsx?$/, '');
+    for (const ext of RESOLVE_EXTENSIONS) {
+      candidates.push(base + ext);
+      if (withoutJsExt !== base) candidates.push(withoutJsExt + ext);
+    }
+    for (const ext of RESOLVE_EXTENSIONS) {
+      candidates.push(join(base, `index${ext}`));
+    }
+
+    for (const candidate of candidates) {
+      if (!RESOLVE_EXTENSIONS.some((ext) => candidate.endsWith(ext))) continue;
+      // Missing candidates count too: creating one changes what the import resolves to
+      this.dependencies?.add(candidate);
+      try {
+        if (statSync(candidate).isFile()) return candidate;
+      } catch (_e) {
+        // try the next candidate
+      }
+    }
+    return undefined;
+  }
+
+  private matchPaths(config: TsconfigPaths, specifier: string): string[] {
+    if (!config.paths) return [];
+
+    let bestPattern: string | undefined;
+    let bestPrefixLength = -1;
+    let wildcardMatch = '';
+
+    for (const pattern of Object.keys(config.paths)) {
+      const starIndex = pattern.indexOf('*');
+      if (starIndex === -1) {
+        if (pattern === specifier) {
+          bestPattern = pattern;
+          wildcardMatch = '';
+          break;
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+      if (
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix) &&
+        prefix.length > bestPrefixLength
+      ) {
+        bestPattern = pattern;
+        bestPrefixLength = prefix.length;
+        wildcardMatch = specifier.slice(prefix.length, specifier.length - suffix.length);
+      }
+    }
+
+    if (bestPattern === undefined) return [];
+    return config.paths[bestPattern].map((target) =>
+      resolve(config.pathsBase, target.replace('*', wildcardMatch))
+    );
+  }
+
+  private findTsconfig(dir: string): TsconfigPaths | null {
+    const cached = this.tsconfigByDir.get(dir);
+    if (cached !== undefined) return cached;
+
+    const candidate = join(dir, 'tsconfig.json');
+    let config: TsconfigPaths | null;
+    if (existsSync(candidate)) {
+      config = this.loadTsconfig(candidate, new Set());
+    } else {
+      const parent = dirname(dir);
+      config = parent === dir ? null : this.findTsconfig(parent);
+    }
+
+    this.tsconfigByDir.set(dir, config);
+    return config;
+  }
+
+  private loadTsconfig(file: string, seen: Set<string>): TsconfigPaths | null {
+    if (seen.has(file)) return null;
+    seen.add(file);
+
+    let json: { extends?: unknown; compilerOptions?: Record<string, unknown> };
+    try {
+      json = parseJsonc(readFileSync(file, 'utf-8')) as typeof json;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.warn(`Cannot read ${file}:`, err.message);
+      return null;
+    }
+
+    const configDir = dirname(file);
+    let inherited: TsconfigPaths | null = null;
+    // Only relative `extends` are followed; package-provided bases never declare project paths
+    if (typeof json.extends === 'string' && json.extends.startsWith('.')) {
+      const basePath = resolve(configDir, json.extends);
+      inherited = this.loadTsconfig(
+        basePath.endsWith('.json') ? basePath : `${basePath}.json`,
+        seen
+      );
+    }
+
+    const options = json.compilerOptions ?? {};
+    const baseUrl =
+      typeof options.baseUrl === 'string'
+        ? resolve(configDir, options.baseUrl)
+        : inherited?.baseUrl;
+    const ownPaths =
+      options.paths && typeof options.paths === 'object'
+        ? (options.paths as Record<string, string[]>)
+        : undefined;
+
+    const files = [file, ...(inherited?.files ?? [])];
+    if (ownPaths) {
+      return { baseUrl, paths: ownPaths, pathsBase: baseUrl ?? configDir, files };
+    }
+    return {
+      baseUrl,
+      paths: inherited?.paths,
+      pathsBase: baseUrl ?? inherited?.pathsBase ?? configDir,
+      files,
+    };
+  }
+}
@@ -0,0 +1,506 @@
+import * as t from '@babel/types';
+import { collectImports } from '../utils/imports.js';
+import {
+  COMPONENT_PROPS_TYPES,
+  getClassPropsType,
+  getDeclaratorPropsType,
+  getParamPropsType,
+  printSource,
+  rightmostName,
+} from '../utils/props-type.js';
+import type { WrapperPredicate } from '../utils/props-type.js';
+import type { ModuleResolver, ParsedModule } from './module-resolver.js';
+
+export interface PropDefinition {
+  name: string;
+  /** Type annotation as written in the source, with whitespace collapsed */
+  type: string;
+  optional: boolean;
+  readonly: boolean;
+  /** Text of the member's JSDoc comment, without tags */
+  description?: string;
+  /** Interface or type alias that declares the member (differs from the props type for inherited props) */
+  declaredIn: string;
+  /** Default applied by the component, when it declares one */
+  defaultValue?: string;
+  /** Permitted values of a literal union or `PropTypes.oneOf([...])`, without quotes */
+  allowedValues?: string[];
+}
+
+export interface ResolvedPropTypes {
+  props: PropDefinition[];
+  /** Referenced types that could not be expanded, e.g. `HTMLAttributes<HTMLButtonElement>` from react */
+  unresolved: string[];
+}
+
+type TypeDeclaration = t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration;
+
+interface ModuleContext {
+  file: string;
+  module: ParsedModule;
+}
+
+/** Utility types whose effect on the member list can be computed syntactically */
+const MEMBER_UTILITY_TYPES = new Set(['Partial', 'Required', 'Readonly', 'Pick', 'Omit']);
+
+/** TypeScript equivalents of the argument-less `PropTypes` validators */
+const PROP_TYPES_VALIDATORS = new Map([
+  ['any', 'any'],
+  ['array', 'any[]'],
+  ['bigint', 'bigint'],
+  ['bool', 'boolean'],
+  ['element', 'ReactElement'],
+  ['elementType', 'ElementType'],
+  ['func', 'Function'],
+  ['node', 'ReactNode'],
+  ['number', 'number'],
+  ['object', 'object'],
+  ['string', 'string'],
+  ['symbol', 'symbol'],
+]);
+
+interface ValidatorType {
+  type: string;
+  allowedValues?: string[];
+}
+
+/**
+ * Expands a props interface or type alias into its members, following `extends` clauses,
+ * intersections and a few member-preserving utility types, within the same file or
+ * across imports resolved by the {@link ModuleResolver}.
+ */
+export class PropTypeResolver {
+  constructor(
+    private readonly moduleResolver: ModuleResolver,
+    private readonly isWrapper?: WrapperPredicate
+  ) {}
+
+  resolveProps(file: string, module: ParsedModule, typeName: string): ResolvedPropTypes {
+    const members = new Map<string, PropDefinition>();
+    const unresolved: string[] = [];
+    this.expandNamedType({ file, module }, typeName, members, unresolved, new Set());
+    return { props: Array.from(members.values()), unresolved };
+  }
+
+  /**
+   * Expand an explicit props type annotation (reference, intersection or inline literal).
+   * Members of inline literals are reported as declared in `declaredIn`.
+   */
+  resolveTypeNode(
+    file: string,
+    module: ParsedModule,
+    node: t.TSType,
+    declaredIn: string
+  ): ResolvedPropTypes {
+    const members = new Map<string, PropDefinition>();
+    const unresolved: string[] = [];
+    this.expandType({ file, module }, node, declaredIn, members, unresolved, new Set());
+    return { props: Array.from(members.values()), unresolved };
+  }
+
+  /**
+   * Read a `propTypes` object such as `{ size: PropTypes.oneOf(['sm', 'lg']).isRequired }`
+   * into the same member shape as a props interface, printing validators as TypeScript types.
+   * Spread entries (`...Base.propTypes`) are reported as unresolved.
+   */
+  resolvePropTypes(
+    file: string,
+    module: ParsedModule,
+    propTypes: t.ObjectExpression,
+    declaredIn: string
+  ): ResolvedPropTypes {
+    const context = { file, module };
+    const props: PropDefinition[] = [];
+    const unresolved: string[] = [];
+
+    for (const property of propTypes.properties) {
+      if (t.isSpreadElement(property)) {
+        unresolved.push(this.print(context, property));
+        continue;
+      }
+      if (!t.isObjectProperty(property) || property.computed || !t.isExpression(property.value)) {
+        continue;
+      }
+      const name = t.isIdentifier(property.key)
+        ? property.key.name
+        : t.isStringLiteral(property.key)
+          ? property.key.value
+          : undefined;
+      if (!name || props.some((prop) => prop.name === name)) continue;
+
+      let validator: t.Expression = property.value;
+      let required = false;
+      if (
+        t.isMemberExpression(validator) &&
+        !validator.computed &&
+        t.isIdentifier(validator.property, { name: 'isRequired' })
+      ) {
+        required = true;
+        validator = validator.object;
+      }
+
+      const { type, allowedValues } = this.validatorType(context, validator);
+      props.push({
+        name,
+        type,
+        optional: !required,
+        readonly: false,
+        description: this.jsDocDescription(property),
+        declaredIn,
+        ...(allowedValues && { allowedValues }),
+      });
+    }
+    return { props, unresolved };
+  }
+
+  private validatorType(context: ModuleContext, node: t.Node): ValidatorType {
+    if (!t.isCallExpression(node)) {
+      const type = PROP_TYPES_VALIDATORS.get(rightmostName(node) ?? '');
+      return { type: type ?? this.print(context, node) };
+    }
+
+    const name = rightmostName(node.callee);
+    const [argument] = node.arguments;
+    if (name === 'oneOf' && t.isArrayExpression(argument)) {
+      const values = argument.elements.map((element) => this.literalValue(element));
+      if (values.every((value) => value !== undefined)) {
+        const type = argument.elements.map((element) => this.print(context, element!)).join(' | ');
+        return { type, allowedValues: values as string[] };
+      }
+    } else if (name === 'oneOfType' && t.isArrayExpression(argument)) {
+      const types = argument.elements.map((element) =>
+        element ? this.validatorType(context, element).type : 'unknown'
+      );
+      return { type: types.join(' | ') };
+    } else if ((name === 'arrayOf' || name === 'objectOf') && argument) {
+      const inner = this.validatorType(context, argument).type;
+      if (name === 'objectOf') return { type: `Record<string, ${inner}>` };
+      return { type: inner.includes(' | ') ? `(${inner})[]` : `${inner}[]` };
+    } else if (name === 'instanceOf' && argument) {
+      return { type: this.print(context, argument) };
+    } else if ((name === 'shape' || name === 'exact') && t.isObjectExpression(argument)) {
+      const fields = this.resolvePropTypes(context.file, context.module, argument, '').props.map(
+        (field) => `${field.name}${field.optional ? '?' : ''}: ${field.type}`
+      );
+      return { type: fields.length > 0 ? `{ ${fields.join('; ')} }` : '{}' };
+    }
+    return { type: this.print(context, node) };
+  }
+
+  private expandNamedType(
+    context: ModuleContext,
+    typeName: string,
+    members: Map<string, PropDefinition>,
+    unresolved: string[],
+    seen: Set<string>
+  ): boolean {
+    const key = `${context.file}#${typeName}`;
+    if (seen.has(key)) return true;
+    seen.add(key);
+
+    const declarations = this.findDeclarations(context.module.ast, typeName);
+    if (declarations.length > 0) {
+      for (const declaration of declarations) {
+        this.expandDeclaration(context, declaration, members, unresolved, seen);
+      }
+      return true;
+    }
+
+    const binding = collectImports(context.module.ast, true).get(typeName);
+    if (!binding || binding.imported === '*') return false;
+
+    const target = this.moduleResolver.resolveModule(context.file, binding.source);
+    if (!target) return false;
+    const definition = this.moduleResolver.resolveExport(target, binding.imported);
+    if (!definition) return false;
+    const module = this.moduleResolver.getParsedModule(definition.file);
+    if (!module) return false;
+
+    return this.expandNamedType(
+      { file: definition.file, module },
+      definition.name,
+      members,
+      unresolved,
+      seen
+    );
+  }
+
+  private expandDeclaration(
+    context: ModuleContext,
+    declaration: TypeDeclaration,
+    members: Map<string, PropDefinition>,
+    unresolved: string[],
+    seen: Set<string>
+  ) {
+    const name = declaration.id.name;
+    if (t.isTSTypeAliasDeclaration(declaration)) {
+      this.expandType(context, declaration.typeAnnotation, name, members, unresolved, seen);
+      return;
+    }
+
+    // Own members take precedence over inherited ones, so add them first
+    this.addMembers(context, declaration.body.body, name, members);
+    for (const heritage of declaration.extends ?? []) {
+      const baseName = this.entityName(heritage.expression);
+      if (!baseName || !this.expandNamedType(context, baseName, members, unresolved, seen)) {
+        unresolved.push(this.print(context, heritage));
+      }
+    }
+  }
+
+  private expandType(
+    context: ModuleContext,
+    node: t.TSType,
+    declaredIn: string,
+    members: Map<string, PropDefinition>,
+    unresolved: string[],
+    seen: Set<string>
+  ) {
+    if (t.isTSParenthesizedType(node)) {
+      this.expandType(context, node.typeAnnotation, declaredIn, members, unresolved, seen);
+    } else if (t.isTSTypeLiteral(node)) {
+      this.addMembers(context, node.members, declaredIn, members);
+    } else if (t.isTSIntersectionType(node)) {
+      for (const part of node.types) {
+        this.expandType(context, part, declaredIn, members, unresolved, seen);
+      }
+    } else if (t.isTSTypeReference(node)) {
+      const name = this.entityName(node.typeName);
+      const [firstParam] = node.typeParameters?.params ?? [];
+      if (
+        COMPONENT_PROPS_TYPES.has(rightmostName(node.typeName) ?? '') &&
+        t.isTSTypeQuery(firstParam) &&
+        t.isIdentifier(firstParam.exprName)
+      ) {
+        const found = this.expandComponentProps(
+          context,
+          firstParam.exprName.name,
+          this.print(context, node),
+          members,
+          unresolved,
+          seen
+        );
+        if (!found) unresolved.push(this.print(context, node));
+      } else if (name && MEMBER_UTILITY_TYPES.has(name) && firstParam) {
+        this.expandUtilityType(context, node, name, declaredIn, members, unresolved, seen);
+      } else if (!name || !this.expandNamedType(context, name, members, unresolved, seen)) {
+        unresolved.push(this.print(context, node));
+      }
+    } else {
+      unresolved.push(this.print(context, node));
+    }
+  }
+
+  /**
+   * Expand `ComponentProps<typeof X>` by locating X's declaration (locally or through imports)
+   * and expanding its own props type, falling back to an `XProps` declaration next to it.
+   */
+  private expandComponentProps(
+    context: ModuleContext,
+    componentName: string,
+    declaredIn: string,
+    members: Map<string, PropDefinition>,
+    unresolved: string[],
+    seen: Set<string>
+  ): boolean {
+    const key = `${context.file}#typeof ${componentName}`;
+    if (seen.has(key)) return true;
+    seen.add(key);
+
+    const propsType = this.findComponentPropsType(context.module.ast, componentName);
+    if (propsType) {
+      this.expandType(context, propsType, declaredIn, members, unresolved, seen);
+      return true;
+    }
+    if (this.findDeclarations(context.module.ast, `${componentName}Props`).length > 0) {
+      return this.expandNamedType(context, `${componentName}Props`, members, unresolved, seen);
+    }
+
+    const binding = collectImports(context.module.ast).get(componentName);
+    if (!binding || binding.imported === '*') return false;
+    const target = this.moduleResolver.resolveModule(context.file, binding.source);
+    const definition = target && this.moduleResolver.resolveExport(target, binding.imported);
+    const module = definition && this.moduleResolver.getParsedModule(definition.file);
+    if (!definition || !module) return false;
+
+    return this.expandComponentProps(
+      { file: definition.file, module },
+      definition.name,
+      declaredIn,
+      members,
+      unresolved,
+      seen
+    );
+  }
+
+  private findComponentPropsType(ast: t.File, componentName: string): t.TSType | undefined {
+    for (const statement of ast.program.body) {
+      const declaration =
+        t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)
+          ? statement.declaration
+          : statement;
+      if (t.isFunctionDeclaration(declaration) && declaration.id?.name === componentName) {
+        return getParamPropsType(declaration);
+      }
+      if (t.isClassDeclaration(declaration) && declaration.id?.name === componentName) {
+        return getClassPropsType(declaration);
+      }
+      if (t.isVariableDeclaration(declaration)) {
+        const declarator = declaration.declarations.find(
+          (d) => t.isIdentifier(d.id) && d.id.name === componentName
+        );
+        if (declarator) return getDeclaratorPropsType(declarator, this.isWrapper);
+      }
+    }
+    return undefined;
+  }
+
+  private expandUtilityType(
+    context: ModuleContext,
+    node: t.TSTypeReference,
+    utility: string,
+    declaredIn: string,
+    members: Map<string, PropDefinition>,
+    unresolved: string[],
+    seen: Set<string>
+  ) {
+    const [target, keys] = node.typeParameters?.params ?? [];
+    const inner = new Map<string, PropDefinition>();
+    const innerUnresolved: string[] = [];
+    this.expandType(context, target, declaredIn, inner, innerUnresolved, seen);
+
+    if (innerUnresolved.length > 0) {
+      unresolved.push(this.print(context, node));
+      return;
+    }
+
+    const keySet = keys ? this.literalKeys(keys) : undefined;
+    for (const [name, member] of inner) {
+      if (utility === 'Pick' && keySet && !keySet.has(name)) continue;
+      if (utility === 'Omit' && keySet && keySet.has(name)) continue;
+      if (members.has(name)) continue;
+      members.set(name, {
+        ...member,
+        optional: utility === 'Partial' ? true : utility === 'Required' ? false : member.optional,
+        readonly: utility === 'Readonly' ? true : member.readonly,
+      });
+    }
+  }
+
+  private addMembers(
+    context: ModuleContext,
+    body: t.TSTypeElement[],
+    declaredIn: string,
+    members: Map<string, PropDefinition>
+  ) {
+    for (const member of body) {
+      if (!t.isTSPropertySignature(member) && !t.isTSMethodSignature(member)) continue;
+
+      const name = t.isIdentifier(member.key)
+        ? member.key.name
+        : t.isStringLiteral(member.key)
+          ? member.key.value
+          : undefined;
+      if (!name || members.has(name)) continue;
+
+      let type = 'unknown';
+      if (t.isTSPropertySignature(member) && member.typeAnnotation) {
+        type = this.print(context, member.typeAnnotation.typeAnnotation);
+      } else if (t.isTSMethodSignature(member)) {
+        const params = member.parameters.map((param) => this.print(context, param)).join(', ');
+        const returnType = member.typeAnnotation
+          ? this.print(context, member.typeAnnotation.typeAnnotation)
+          : 'void';
+        type = `(${params}) => ${returnType}`;
+      }
+
+      const allowedValues =
+        t.isTSPropertySignature(member) && member.typeAnnotation
+          ? this.literalUnionValues(member.typeAnnotation.typeAnnotation)
+          : undefined;
+      members.set(name, {
+        name,
+        type,
+        optional: Boolean(member.optional),
+        readonly: t.isTSPropertySignature(member) && Boolean(member.readonly),
+        description: this.jsDocDescription(member),
+        declaredIn,
+        ...(allowedValues && { allowedValues }),
+      });
+    }
+  }
+
+  private findDeclarations(ast: t.File, typeName: string): TypeDeclaration[] {
+    const declarations: TypeDeclaration[] = [];
+    for (const statement of ast.program.body) {
+      const declaration =
+        t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)
+          ? statement.declaration
+          : statement;
+      if (
+        (t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration)) &&
+        declaration.id.name === typeName
+      ) {
+        declarations.push(declaration);
+      }
+    }
+    return declarations;
+  }
+
+  private literalKeys(node: t.TSType): Set<string> | undefined {
+    const parts = t.isTSUnionType(node) ? node.types : [node];
+    const keys = new Set<string>();
+    for (const part of parts) {
+      if (!t.isTSLiteralType(part) || !t.isStringLiteral(part.literal)) return undefined;
+      keys.add(part.literal.value);
+    }
+    return keys;
+  }
+
+  /**
+   * Values of a union of literal types such as `'primary' | 'secondary'`, ignoring
+   * `null`/`undefined` members. Undefined when any member is not a literal.
+   */
+  private literalUnionValues(node: t.TSType): string[] | undefined {
+    const parts = t.isTSUnionType(node) ? node.types : [node];
+    const values: string[] = [];
+    for (const part of parts) {
+      if (t.isTSNullKeyword(part) || t.isTSUndefinedKeyword(part)) continue;
+      const value = t.isTSLiteralType(part) ? this.literalValue(part.literal) : undefined;
+      if (value === undefined) return undefined;
+      values.push(value);
+    }
+    return values.length > 0 ? values : undefined;
+  }
+
+  private literalValue(node: t.Node | null): string | undefined {
+    if (t.isStringLiteral(node)) return node.value;
+    if (t.isNumericLiteral(node) || t.isBooleanLiteral(node)) return String(node.value);
+    return undefined;
+  }
+
+  private entityName(node: t.Node): string | undefined {
+    if (t.isIdentifier(node)) return node.name;
+    // Qualified names such as React.HTMLAttributes live in external typings
+    return undefined;
+  }
+
+  private jsDocDescription(node: t.Node): string | undefined {
+    const comment = [...(node.leadingComments ?? [])]
+      .reverse()
+      .find((c) => c.type === 'CommentBlock' && c.value.startsWith('*'));
+    if (!comment) return undefined;
+
+    const lines = comment.value
+      .slice(1)
+      .split('\n')
+      .map((line) => line.replace(/^\s*\*?\s?/, '').trimEnd());
+    const tagIndex = lines.findIndex((line) => line.startsWith('@'));
+    const description = (tagIndex === -1 ? lines : lines.slice(0, tagIndex)).join(' ').trim();
+    return description || undefined;
+  }
+
+  private print(context: ModuleContext, node: t.Node): string {
+    return printSource(context.module.content, node);
+  }
+}
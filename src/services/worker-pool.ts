@@ -0,0 +1,122 @@
+import { Worker, parentPort } from 'worker_threads';
+
+type PoolRequest<TTask> = { type: 'task'; task: TTask } | { type: 'broadcast'; message: unknown };
+
+type PoolResponse<TResult> = { result: TResult } | { error: string };
+
+interface PoolJob<TTask, TResult> {
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolSlot<TTask, TResult> {
+  worker: Worker;
+  job?: PoolJob<TTask, TResult>;
+}
+
+/**
+ * Fixed-size pool of worker threads running one task at a time each. Workers are started on
+ * demand and unreferenced while idle, so an unused pool never keeps the process alive.
+ */
+export class WorkerPool<TTask, TResult> {
+  private readonly slots: PoolSlot<TTask, TResult>[] = [];
+  private readonly queue: PoolJob<TTask, TResult>[] = [];
+
+  constructor(
+    private readonly script: URL,
+    private readonly size: number,
+    private readonly workerData?: unknown
+  ) {}
+
+  run(task: TTask): Promise<TResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Send a message to every running worker without waiting for a reply.
+   */
+  broadcast(message: unknown) {
+    const request: PoolRequest<TTask> = { type: 'broadcast', message };
+    for (const slot of this.slots) slot.worker.postMessage(request);
+  }
+
+  async close() {
+    for (const job of this.queue.splice(0)) job.reject(new Error('Worker pool closed'));
+    const slots = this.slots.splice(0);
+    await Promise.all(slots.map((slot) => slot.worker.terminate()));
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find((candidate) => !candidate.job);
+      if (!slot) {
+        if (this.slots.length >= this.size) return;
+        slot = this.spawn();
+      }
+      const job = this.queue.shift()!;
+      slot.job = job;
+      slot.worker.ref();
+      const request: PoolRequest<TTask> = { type: 'task', task: job.task };
+      slot.worker.postMessage(request);
+    }
+  }
+
+  private spawn(): PoolSlot<TTask, TResult> {
+    const worker = new Worker(this.script, { workerData: this.workerData });
+    const slot: PoolSlot<TTask, TResult> = { worker };
+
+    worker.on('message', (response: PoolResponse<TResult>) => {
+      const job = slot.job;
+      slot.job = undefined;
+      worker.unref();
+      if ('error' in response) job?.reject(new Error(response.error));
+      else job?.resolve(response.result);
+      this.dispatch();
+    });
+
+    const fail = (error: Error) => {
+      const index = this.slots.indexOf(slot);
+      if (index === -1) return;
+      this.slots.splice(index, 1);
+      slot.job?.reject(error);
+      slot.job = undefined;
+      this.dispatch();
+    };
+    worker.on('error', fail);
+    worker.on('exit', (code) => fail(new Error(`Worker exited with code ${code}`)));
+
+    this.slots.push(slot);
+    return slot;
+  }
+}
+
+/**
+ * Worker-side counterpart of {@link WorkerPool}: answer each task with `handle`'s result and
+ * pass broadcast messages to `onBroadcast`.
+ */
+export function serveWorkerTasks<TTask, TResult>(
+  handle: (task: TTask) => Promise<TResult>,
+  onBroadcast?: (message: unknown) => void
+) {
+  const port = parentPort;
+  if (!port) throw new Error('serveWorkerTasks must be called from a worker thread');
+
+  port.on('message', async (request: PoolRequest<TTask>) => {
+    if (request.type === 'broadcast') {
+      onBroadcast?.(request.message);
+      return;
+    }
+
+    let response: PoolResponse<TResult>;
+    try {
+      response = { result: await handle(request.task) };
+    } catch (error) {
+      response = { error: error instanceof Error ? error.message : String(error) };
+    }
+    port.postMessage(response);
+  });
+}
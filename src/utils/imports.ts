@@ -0,0 +1,158 @@
+import { dirname, isAbsolute, resolve } from 'path';
+import * as t from '@babel/types';
+
+export interface ImportBinding {
+  /** Module specifier as written in the import declaration (e.g. '@acme/ui') */
+  source: string;
+  /** Exported name the local binding refers to: a named export, 'default' or '*' */
+  imported: string;
+}
+
+export interface ComponentFilter {
+  name: string;
+  source?: string;
+}
+
+export interface ResolvedJSXIdentity {
+  importSource?: string;
+  importedName?: string;
+}
+
+/**
+ * Collect the file's import declarations keyed by local binding name.
+ * Type-only imports are skipped by default since they can never be rendered.
+ */
+export function collectImports(
+  ast: t.File,
+  includeTypeOnly: boolean = false
+): Map<string, ImportBinding> {
+  const imports = new Map<string, ImportBinding>();
+
+  for (const statement of ast.program.body) {
+    if (!t.isImportDeclaration(statement)) continue;
+    if (statement.importKind === 'type' && !includeTypeOnly) continue;
+
+    const source = statement.source.value;
+    for (const specifier of statement.specifiers) {
+      if (t.isImportDefaultSpecifier(specifier)) {
+        imports.set(specifier.local.name, { source, imported: 'default' });
+      } else if (t.isImportNamespaceSpecifier(specifier)) {
+        imports.set(specifier.local.name, { source, imported: '*' });
+      } else if (
+        t.isImportSpecifier(specifier) &&
+        (includeTypeOnly || specifier.importKind !== 'type')
+      ) {
+        const imported = t.isIdentifier(specifier.imported)
+          ? specifier.imported.name
+          : specifier.imported.value;
+        imports.set(specifier.local.name, { source, imported });
+      }
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Resolve a dotted JSX name (e.g. 'UIButton' or 'UI.Select') against the file's imports.
+ * Namespace imports contribute the member path as the imported name, so `<UI.Select>`
+ * with `import * as UI from 'x'` resolves to `{ importSource: 'x', importedName: 'Select' }`.
+ */
+export function resolveJSXIdentity(
+  fullName: string,
+  imports: Map<string, ImportBinding>
+): ResolvedJSXIdentity {
+  const [root, ...members] = fullName.split('.');
+  const binding = imports.get(root);
+  if (!binding) return {};
+
+  const importedName =
+    binding.imported === '*' ? members.join('.') || '*' : [binding.imported, ...members].join('.');
+
+  return { importSource: binding.source, importedName };
+}
+
+/**
+ * Parse a componentName filter. A qualified form `<source>#<name>` (e.g. '@acme/ui#Button')
+ * restricts matches to components imported from that module specifier.
+ */
+export function parseComponentFilter(filter: string): ComponentFilter {
+  const hashIndex = filter.lastIndexOf('#');
+  if (hashIndex <= 0 || hashIndex === filter.length - 1) return { name: filter };
+  return { source: filter.slice(0, hashIndex), name: filter.slice(hashIndex + 1) };
+}
+
+/**
+ * Resolve a relative `<source>#<name>` filter against the searched directory, so that its
+ * source names one module wherever the usages importing it live. Other filters are returned
+ * unchanged.
+ */
+export function qualifyComponentFilter(filter: string, directory: string): string {
+  const { name, source } = parseComponentFilter(filter);
+  if (source === undefined || !source.startsWith('.')) return filter;
+  return `${resolve(directory, source)}#${name}`;
+}
+
+/**
+ * Check whether a JSX usage matches a component filter.
+ * Unqualified filters match the full dotted name, the local name or the original
+ * exported name (so 'Button' also finds `<UIButton>` aliases). Qualified filters
+ * additionally require the usage to be imported from the given source; an absolute source
+ * matches relative imports in `file` that resolve to the same module.
+ */
+export function matchesJSXUsage(
+  filter: ComponentFilter,
+  fullName: string,
+  localName: string,
+  identity: ResolvedJSXIdentity,
+  file?: string
+): boolean {
+  if (filter.source !== undefined) {
+    const importSource =
+      file !== undefined && isAbsolute(filter.source) && identity.importSource?.startsWith('.')
+        ? resolve(dirname(file), identity.importSource)
+        : identity.importSource;
+    if (importSource === undefined || !isSameModule(importSource, filter.source)) return false;
+    // Default imports have no exported name to compare against, so fall back to the local binding
+    return (
+      identity.importedName === filter.name ||
+      (identity.importedName === 'default' && localName === filter.name)
+    );
+  }
+
+  return (
+    filter.name === fullName ||
+    filter.name === localName ||
+    (identity.importedName !== undefined && identity.importedName === filter.name)
+  );
+}
+
+/**
+ * Check whether a component definition matches a component filter.
+ * A qualified filter only matches local definitions when its source is an absolute path
+ * (see `qualifyComponentFilter`) naming the defining file, with or without extension, or
+ * the directory whose index file defines it.
+ */
+export function matchesDefinition(
+  filter: ComponentFilter,
+  componentName: string,
+  file: string
+): boolean {
+  if (filter.name !== componentName) return false;
+  if (filter.source === undefined) return true;
+  return isAbsolute(filter.source) && isSameModule(file, filter.source);
+}
+
+/**
+ * Whether `file` is the module `source` names. Sources that are not paths must match
+ * exactly; paths are compared whole, ignoring the extension and an `/index` suffix.
+ */
+function isSameModule(file: string, source: string): boolean {
+  if (!isAbsolute(source)) return file === source;
+  const normalize = (path: string) =>
+    path
+      .replace(/\\/g, '/')
+      .replace(/\.[jt]sx?$/, '')
+      .replace(/\/index$/, '');
+  return normalize(file) === normalize(source);
+}
@@ -0,0 +1,56 @@
+import * as t from '@babel/types';
+import { parseExpressionSource } from './parser.js';
+import type { TextEdit } from './text-edits.js';
+
+/**
+ * JSX attribute passing an expression, e.g. `type="button"` for `'button'` and
+ * `width={100}` for `100`. Throws when `expression` is not a valid JavaScript expression.
+ */
+export function formatAttribute(name: string, expression: string): string {
+  let parsed: t.Expression;
+  try {
+    parsed = parseExpressionSource(expression);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid expression for ${name}: ${expression} - ${message}`);
+  }
+  // JSX strings have no escapes, so only plain strings can be written as `name="..."`
+  if (t.isStringLiteral(parsed) && !/["\\\n]/.test(parsed.value)) {
+    return `${name}="${parsed.value}"`;
+  }
+  return `${name}={${expression.trim()}}`;
+}
+
+function indentationAt(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(content.slice(lineStart))?.[0] ?? '';
+}
+
+/**
+ * Edit adding an attribute to a JSX element: after the last attribute, or before the first
+ * spread so that a value the spread carries still takes precedence. Elements with attributes
+ * on their own lines get the new attribute on its own line with the same indentation.
+ */
+export function getAttributeInsertEdit(
+  opening: t.JSXOpeningElement,
+  content: string,
+  attribute: string
+): TextEdit | undefined {
+  const onOwnLine = (node: t.Node) =>
+    !!node.loc && !!opening.loc && node.loc.start.line > opening.loc.start.line;
+
+  const spread = opening.attributes.find((candidate) => t.isJSXSpreadAttribute(candidate));
+  if (spread?.start != null) {
+    const separator = onOwnLine(spread) ? `\n${indentationAt(content, spread.start)}` : ' ';
+    return { start: spread.start, end: spread.start, text: `${attribute}${separator}` };
+  }
+
+  const last = opening.attributes[opening.attributes.length - 1];
+  const anchor = last ?? opening.typeParameters ?? opening.name;
+  if (anchor.end == null) return undefined;
+  if (last?.start != null && onOwnLine(last)) {
+    const indent = indentationAt(content, last.start);
+    return { start: anchor.end, end: anchor.end, text: `\n${indent}${attribute}` };
+  }
+  return { start: anchor.end, end: anchor.end, text: ` ${attribute}` };
+}
@@ -0,0 +1,32 @@
+import { parse, parseExpression } from '@babel/parser';
+import type { ParserOptions } from '@babel/parser';
+import type * as t from '@babel/types';
+
+/**
+ * Babel parser options shared by every code path that parses source files,
+ * so JSX usages, definitions and re-export lookups all see the same syntax support.
+ */
+export const PARSER_OPTIONS: ParserOptions = {
+  sourceType: 'module',
+  plugins: [
+    'jsx',
+    'typescript',
+    'decorators-legacy',
+    'classProperties',
+    'objectRestSpread',
+    'functionBind',
+    'exportDefaultFrom',
+    'exportNamespaceFrom',
+    'dynamicImport',
+    'nullishCoalescingOperator',
+    'optionalChaining',
+  ],
+};
+
+export function parseSource(content: string): t.File {
+  return parse(content, PARSER_OPTIONS);
+}
+
+export function parseExpressionSource(content: string): t.Expression {
+  return parseExpression(content, PARSER_OPTIONS);
+}
@@ -0,0 +1,349 @@
+import * as t from '@babel/types';
+import {
+  getClassPropsType,
+  getDeclaratorPropsType,
+  getParamPropsType,
+  unwrapComponent,
+} from './props-type.js';
+import type { WrapperPredicate } from './props-type.js';
+import type { TextEdit } from './text-edits.js';
+
+/** Props names usable as JSX attributes: identifiers, optionally with dashes (`aria-label`) */
+const ATTRIBUTE_NAME = /^[A-Za-z_$][\w$]*(-[\w$]+)*$/;
+
+export function isValidPropName(name: string): boolean {
+  return ATTRIBUTE_NAME.test(name);
+}
+
+/** Object key or type member name for a prop, quoted when it is not an identifier */
+function keyText(name: string): string {
+  return t.isValidIdentifier(name) ? name : `'${name}'`;
+}
+
+function keyName(key: t.Node): string | undefined {
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key)) return key.value;
+  return undefined;
+}
+
+function replace(node: t.Node, text: string): TextEdit[] {
+  return node.start == null || node.end == null ? [] : [{ start: node.start, end: node.end, text }];
+}
+
+/**
+ * Edit renaming attribute `from` to `to` on a JSX element. Returns 'conflict' when the
+ * element passes both, and undefined when it does not pass `from`.
+ */
+export function getAttributeRenameEdit(
+  opening: t.JSXOpeningElement,
+  from: string,
+  to: string
+): TextEdit | 'conflict' | undefined {
+  let attribute: t.JSXAttribute | undefined;
+  let passesTo = false;
+  for (const candidate of opening.attributes) {
+    if (!t.isJSXAttribute(candidate) || !t.isJSXIdentifier(candidate.name)) continue;
+    if (candidate.name.name === to) passesTo = true;
+    if (candidate.name.name === from) attribute = candidate;
+  }
+  if (!attribute) return undefined;
+  return passesTo ? 'conflict' : replace(attribute.name, to)[0];
+}
+
+/**
+ * Rename a key in an object literal or destructuring pattern. Shorthand entries keep their
+ * local name (`{ size }` becomes `{ scale: size }`), so the code using it is left as is.
+ */
+function renameObjectKeys(
+  node: t.ObjectExpression | t.ObjectPattern,
+  from: string,
+  to: string
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+  for (const property of node.properties) {
+    if (!t.isObjectProperty(property) || property.computed) continue;
+    if (keyName(property.key) !== from || property.key.start == null) continue;
+    if (property.shorthand) {
+      const start = property.key.start;
+      edits.push({ start, end: start, text: `${keyText(to)}: ` });
+    } else {
+      edits.push(...replace(property.key, keyText(to)));
+    }
+  }
+  return edits;
+}
+
+/** Rename `props.from` (or `props?.from`), switching to a computed key when needed */
+function renameMember(
+  node: t.MemberExpression | t.OptionalMemberExpression,
+  to: string
+): TextEdit[] {
+  if (t.isValidIdentifier(to)) return replace(node.property, to);
+  if (node.object.end == null || node.end == null) return [];
+  return [{ start: node.object.end, end: node.end, text: `${node.optional ? '?.' : ''}['${to}']` }];
+}
+
+function isPropAccess(node: t.Node, isProps: (object: t.Node) => boolean, from: string) {
+  return (
+    (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) &&
+    !node.computed &&
+    t.isIdentifier(node.property, { name: from }) &&
+    isProps(node.object)
+  );
+}
+
+function isThisProps(node: t.Node | null | undefined): boolean {
+  return (
+    t.isMemberExpression(node) &&
+    t.isThisExpression(node.object) &&
+    t.isIdentifier(node.property, { name: 'props' }) &&
+    !node.computed
+  );
+}
+
+/**
+ * Rename accesses and destructurings of the props object within a component body.
+ */
+function renamePropsReads(
+  body: t.Node,
+  isProps: (node: t.Node | null | undefined) => boolean,
+  from: string,
+  to: string,
+  edits: TextEdit[]
+) {
+  t.traverseFast(body, (node) => {
+    if (isPropAccess(node, isProps, from)) {
+      edits.push(...renameMember(node as t.MemberExpression, to));
+    } else if (t.isVariableDeclarator(node) && t.isObjectPattern(node.id) && isProps(node.init)) {
+      edits.push(...renameObjectKeys(node.id, from, to));
+    }
+  });
+}
+
+interface ComponentNode {
+  fn?: t.Function;
+  cls?: t.Class;
+  propsType?: t.TSType;
+}
+
+/**
+ * Locate a component declared as a function, class, variable or default export.
+ */
+function findComponentNode(
+  ast: t.File,
+  componentName: string,
+  isWrapper: WrapperPredicate
+): ComponentNode | undefined {
+  let found: ComponentNode | undefined;
+  t.traverseFast(ast.program, (node) => {
+    if (found) return;
+    if (t.isFunctionDeclaration(node) && node.id?.name === componentName) {
+      found = { fn: node, propsType: getParamPropsType(node) };
+    } else if (t.isClass(node) && node.id?.name === componentName) {
+      found = { cls: node, propsType: getClassPropsType(node) };
+    } else if (t.isVariableDeclarator(node) && t.isIdentifier(node.id, { name: componentName })) {
+      if (t.isClassExpression(node.init)) {
+        found = { cls: node.init, propsType: getClassPropsType(node.init) };
+        return;
+      }
+      const fn = unwrapComponent(node.init, isWrapper)?.fn;
+      if (fn) found = { fn, propsType: getDeclaratorPropsType(node, isWrapper) };
+    } else if (t.isExportDefaultDeclaration(node)) {
+      const fn = unwrapComponent(node.declaration, isWrapper)?.fn;
+      const name = (t.isFunctionExpression(fn) && fn.id?.name) || 'default';
+      if (fn && name === componentName) found = { fn, propsType: getParamPropsType(fn) };
+    }
+  });
+  return found;
+}
+
+/**
+ * Names of the types a file exports, and how often each type name is referenced in it.
+ */
+function collectTypeUsage(ast: t.File): { exported: Set<string>; references: Map<string, number> } {
+  const exported = new Set<string>();
+  const references = new Map<string, number>();
+  const reference = (name: string) => references.set(name, (references.get(name) ?? 0) + 1);
+  t.traverseFast(ast.program, (node) => {
+    if (t.isExportNamedDeclaration(node)) {
+      const { declaration } = node;
+      if (t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration)) {
+        exported.add(declaration.id.name);
+      }
+      for (const specifier of node.specifiers) {
+        if (t.isExportSpecifier(specifier)) exported.add(specifier.local.name);
+      }
+    } else if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+      reference(node.typeName.name);
+    } else if (t.isTSExpressionWithTypeArguments(node) && t.isIdentifier(node.expression)) {
+      reference(node.expression.name);
+    }
+  });
+  return { exported, references };
+}
+
+/**
+ * Rename members of the props type: inline type literals, and interfaces or type aliases
+ * declared in the same file that the type refers to, extends or intersects. The search starts
+ * at `propsTypeName` (e.g. the `<Component>Props` fallback) and `declaringType` when given.
+ *
+ * Types other than the component's own props type are skipped when they are exported or
+ * referenced more than once, since other components may take them too; the ones declaring
+ * `from` are returned as `sharedTypes`.
+ */
+function renameTypeMembers(
+  ast: t.File,
+  propsType: t.TSType | undefined,
+  propsTypeName: string | undefined,
+  declaringType: string | undefined,
+  from: string,
+  to: string,
+  edits: TextEdit[]
+): { renamed: number; sharedTypes: string[] } {
+  const declarations = new Map<string, t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration>();
+  t.traverseFast(ast.program, (node) => {
+    if (t.isTSInterfaceDeclaration(node) || t.isTSTypeAliasDeclaration(node)) {
+      declarations.set(node.id.name, node);
+    }
+  });
+  const { exported, references } = collectTypeUsage(ast);
+  const ownTypes = new Set<string>();
+  if (propsTypeName) ownTypes.add(propsTypeName);
+  if (t.isTSTypeReference(propsType) && t.isIdentifier(propsType.typeName)) {
+    ownTypes.add(propsType.typeName.name);
+  }
+
+  let renamed = 0;
+  const declares = (members: t.TSTypeElement[]) =>
+    members.filter(
+      (member): member is t.TSPropertySignature | t.TSMethodSignature =>
+        (t.isTSPropertySignature(member) || t.isTSMethodSignature(member)) &&
+        !member.computed &&
+        keyName(member.key) === from
+    );
+  const renameMembers = (members: t.TSTypeElement[]) => {
+    for (const member of declares(members)) {
+      edits.push(...replace(member.key, keyText(to)));
+      renamed++;
+    }
+  };
+
+  const sharedTypes: string[] = [];
+  const visited = new Set<string>();
+  const pending: string[] = [...ownTypes];
+  if (declaringType) pending.push(declaringType);
+  const visitType = (type: t.TSType | undefined) => {
+    if (t.isTSTypeLiteral(type)) renameMembers(type.members);
+    else if (t.isTSIntersectionType(type)) type.types.forEach(visitType);
+    else if (t.isTSParenthesizedType(type)) visitType(type.typeAnnotation);
+    else if (t.isTSTypeReference(type) && t.isIdentifier(type.typeName)) {
+      pending.push(type.typeName.name);
+    }
+  };
+
+  visitType(propsType);
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (visited.has(name)) continue;
+    visited.add(name);
+    const declaration = declarations.get(name);
+    if (!declaration) continue;
+    if (!ownTypes.has(name) && (exported.has(name) || (references.get(name) ?? 0) > 1)) {
+      const members = t.isTSInterfaceDeclaration(declaration)
+        ? declaration.body.body
+        : t.isTSTypeLiteral(declaration.typeAnnotation)
+          ? declaration.typeAnnotation.members
+          : [];
+      if (declares(members).length > 0) sharedTypes.push(name);
+      continue;
+    }
+    if (t.isTSInterfaceDeclaration(declaration)) {
+      renameMembers(declaration.body.body);
+      for (const heritage of declaration.extends ?? []) {
+        if (t.isIdentifier(heritage.expression)) pending.push(heritage.expression.name);
+      }
+    } else {
+      visitType(declaration.typeAnnotation);
+    }
+  }
+  return { renamed, sharedTypes };
+}
+
+export interface DefinitionRenameEdits {
+  edits: TextEdit[];
+  /** Whether the component's declaration was found in the file */
+  found: boolean;
+  /** Props type members renamed */
+  typeMembers: number;
+  /** Types declaring the prop that were left unchanged because other code may use them */
+  sharedTypes: string[];
+}
+
+/**
+ * Edits renaming a prop inside a component's own file: its destructuring (keeping local
+ * names), reads of `props.x` or `this.props.x`, `defaultProps` and `propTypes` keys, and
+ * members of its props type declared in the file, except in types shared with other code.
+ */
+export function getDefinitionRenameEdits(
+  ast: t.File,
+  componentName: string,
+  from: string,
+  to: string,
+  typeNames: { propsType?: string; declaringType?: string },
+  isWrapper: WrapperPredicate
+): DefinitionRenameEdits {
+  const component = findComponentNode(ast, componentName, isWrapper);
+  if (!component) return { edits: [], found: false, typeMembers: 0, sharedTypes: [] };
+
+  const edits: TextEdit[] = [];
+  if (component.fn) {
+    const param = component.fn.params[0];
+    if (t.isObjectPattern(param)) {
+      edits.push(...renameObjectKeys(param, from, to));
+    } else if (t.isIdentifier(param)) {
+      const isProps = (node: t.Node | null | undefined) =>
+        t.isIdentifier(node, { name: param.name });
+      renamePropsReads(component.fn.body, isProps, from, to, edits);
+    }
+  }
+  if (component.cls) {
+    renamePropsReads(component.cls.body, isThisProps, from, to, edits);
+  }
+
+  // `static defaultProps = {...}` and `Component.propTypes = {...}`
+  const staticObjects = ['defaultProps', 'propTypes'];
+  t.traverseFast(ast.program, (node) => {
+    if (
+      t.isAssignmentExpression(node) &&
+      t.isMemberExpression(node.left) &&
+      t.isIdentifier(node.left.object, { name: componentName }) &&
+      t.isIdentifier(node.left.property) &&
+      staticObjects.includes(node.left.property.name) &&
+      t.isObjectExpression(node.right)
+    ) {
+      edits.push(...renameObjectKeys(node.right, from, to));
+    }
+  });
+  for (const member of component.cls?.body.body ?? []) {
+    if (
+      t.isClassProperty(member) &&
+      member.static &&
+      t.isIdentifier(member.key) &&
+      staticObjects.includes(member.key.name) &&
+      t.isObjectExpression(member.value)
+    ) {
+      edits.push(...renameObjectKeys(member.value, from, to));
+    }
+  }
+
+  const { renamed, sharedTypes } = renameTypeMembers(
+    ast,
+    component.propsType,
+    typeNames.propsType,
+    typeNames.declaringType,
+    from,
+    to,
+    edits
+  );
+  return { edits, found: true, typeMembers: renamed, sharedTypes };
+}
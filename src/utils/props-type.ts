@@ -0,0 +1,173 @@
+import * as t from '@babel/types';
+
+/** Generic React component types whose first type argument is the props type */
+const FUNCTION_COMPONENT_TYPES = new Set([
+  'FC',
+  'FunctionComponent',
+  'VFC',
+  'VoidFunctionComponent',
+  'ComponentType',
+]);
+
+/** Wrappers and HOCs that return a component with the wrapped component's props */
+export const WELL_KNOWN_WRAPPERS = [
+  'memo',
+  'forwardRef',
+  'observer',
+  'styled',
+  'withStyles',
+  'withTheme',
+  'withRouter',
+  'connect',
+];
+
+export type WrapperPredicate = (name: string) => boolean;
+
+const isWellKnownWrapper: WrapperPredicate = (name) => WELL_KNOWN_WRAPPERS.includes(name);
+
+export interface UnwrappedComponent {
+  /** Render function at the core of the wrapper chain */
+  fn?: t.ArrowFunctionExpression | t.FunctionExpression;
+  /** Existing component passed to the wrappers, e.g. `Card` in `withTheme(Card)` */
+  target?: string;
+  /** Wrapper names, outermost first */
+  wrappers: string[];
+  /** Wrapper calls, outermost first, for reading their type arguments */
+  calls: t.CallExpression[];
+}
+
+/** Utility types that derive props from another component: `ComponentProps<typeof X>` */
+export const COMPONENT_PROPS_TYPES = new Set([
+  'ComponentProps',
+  'ComponentPropsWithRef',
+  'ComponentPropsWithoutRef',
+]);
+
+/**
+ * Source text of a node with whitespace collapsed, used to print type annotations as written.
+ */
+export function printSource(content: string, node: t.Node): string {
+  if (node.start == null || node.end == null) return 'unknown';
+  return content.slice(node.start, node.end).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Rightmost identifier of a (possibly qualified) name, e.g. 'FC' for `React.FC`.
+ */
+export function rightmostName(name: t.Node): string | undefined {
+  if (t.isIdentifier(name)) return name.name;
+  if (t.isTSQualifiedName(name)) return name.right.name;
+  if (t.isMemberExpression(name) && t.isIdentifier(name.property) && !name.computed) {
+    return name.property.name;
+  }
+  return undefined;
+}
+
+/**
+ * Peel wrapper calls off a component expression: `memo(forwardRef((props, ref) => ...))`,
+ * curried HOCs such as `withStyles(styles)(Card)`, and `styled(Button)\`...\`` templates.
+ * Returns undefined when the expression is neither a function nor a wrapped component.
+ */
+export function unwrapComponent(
+  expression: t.Node | null | undefined,
+  isWrapper: WrapperPredicate = isWellKnownWrapper
+): UnwrappedComponent | undefined {
+  const wrappers: string[] = [];
+  const calls: t.CallExpression[] = [];
+  let current = expression;
+
+  while (current) {
+    if (t.isArrowFunctionExpression(current) || t.isFunctionExpression(current)) {
+      return { fn: current, wrappers, calls };
+    }
+    if (t.isIdentifier(current)) {
+      // A bare identifier is only a component definition when something wraps it
+      return wrappers.length > 0 ? { target: current.name, wrappers, calls } : undefined;
+    }
+    if (t.isTaggedTemplateExpression(current)) {
+      current = current.tag;
+      continue;
+    }
+    if (!t.isCallExpression(current)) return undefined;
+
+    const name = rightmostName(current.callee);
+    if (name && isWrapper(name)) {
+      wrappers.push(name);
+      calls.push(current);
+    } else if (t.isCallExpression(current.callee)) {
+      const curriedName = rightmostName(current.callee.callee);
+      if (!curriedName || !isWrapper(curriedName)) return undefined;
+      wrappers.push(curriedName);
+      calls.push(current.callee);
+    } else {
+      return undefined;
+    }
+    current = current.arguments[0];
+  }
+  return undefined;
+}
+
+/**
+ * Props type annotated on a component function's first parameter, e.g. `(p: CardConfig)`
+ * or `({ title }: CardProps)`.
+ */
+export function getParamPropsType(fn: t.Function): t.TSType | undefined {
+  const param = fn.params[0];
+  if (
+    (t.isIdentifier(param) || t.isObjectPattern(param)) &&
+    t.isTSTypeAnnotation(param.typeAnnotation)
+  ) {
+    return param.typeAnnotation.typeAnnotation;
+  }
+  return undefined;
+}
+
+/**
+ * Explicit props type of a variable-declared component, in order of precedence:
+ * a `React.FC<T>`-style annotation, `forwardRef<Ref, T>`/`memo<T>` generics, then the
+ * parameter annotation.
+ */
+export function getDeclaratorPropsType(
+  declarator: t.VariableDeclarator,
+  isWrapper: WrapperPredicate = isWellKnownWrapper
+): t.TSType | undefined {
+  if (t.isIdentifier(declarator.id) && t.isTSTypeAnnotation(declarator.id.typeAnnotation)) {
+    const annotation = declarator.id.typeAnnotation.typeAnnotation;
+    if (
+      t.isTSTypeReference(annotation) &&
+      FUNCTION_COMPONENT_TYPES.has(rightmostName(annotation.typeName) ?? '') &&
+      annotation.typeParameters?.params.length
+    ) {
+      return annotation.typeParameters.params[0];
+    }
+  }
+
+  const unwrapped = unwrapComponent(declarator.init, isWrapper);
+  if (!unwrapped) return undefined;
+
+  for (const call of unwrapped.calls) {
+    const name = rightmostName(call.callee);
+    const typeArguments = call.typeParameters?.params ?? [];
+    if (name === 'forwardRef' && typeArguments.length > 1) return typeArguments[1];
+    if (name === 'memo' && typeArguments.length > 0) return typeArguments[0];
+  }
+  return unwrapped.fn ? getParamPropsType(unwrapped.fn) : undefined;
+}
+
+/**
+ * Whether a class extends `Component`/`PureComponent` (optionally qualified, e.g. `React.Component`).
+ */
+export function isComponentClass(cls: t.Class): boolean {
+  const base = cls.superClass ? rightmostName(cls.superClass) : undefined;
+  return base === 'Component' || base === 'PureComponent';
+}
+
+/**
+ * Props type of a class component: the first type argument of its base class,
+ * e.g. `CardProps` in `class Card extends React.Component<CardProps, CardState>`.
+ */
+export function getClassPropsType(cls: t.Class): t.TSType | undefined {
+  const typeArguments = cls.superTypeParameters;
+  if (!t.isTSTypeParameterInstantiation(typeArguments)) return undefined;
+  return typeArguments.params[0];
+}
@@ -0,0 +1,308 @@
+import { isAbsolute, relative, sep } from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  AuditResult,
+  MissingPropUsage,
+  PropRulesResult,
+  UnknownPropUsage,
+} from '../jsx-analyzer.js';
+
+/** Output formats for audit-style results; 'json' is the result object itself */
+export const REPORT_FORMATS = ['json', 'sarif', 'junit', 'github-annotations'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** SARIF levels; GitHub annotations call 'note' a notice */
+export type FindingLevel = 'error' | 'warning' | 'note';
+
+export interface ReportFinding {
+  ruleId: string;
+  level: FindingLevel;
+  message: string;
+  file: string;
+  line: number;
+  /** 0-based, as reported by the analyzer */
+  column: number;
+}
+
+export interface ReportRule {
+  id: string;
+  description?: string;
+}
+
+/**
+ * Findings of one audit in a shape every format can be generated from. Rules without
+ * findings are listed too, so formats that show passing checks can include them.
+ */
+export interface Report {
+  /** Directory file paths are made relative to */
+  root: string;
+  rules: ReportRule[];
+  findings: ReportFinding[];
+}
+
+const TOOL_NAME = 'jsx-prop-lookup-mcp-server';
+const TOOL_URI = 'https://github.com/lmn451/jsx-prop-lookup-mcp-server';
+
+const quoted = (props: string[]) => props.map((prop) => `'${prop}'`).join(', ');
+
+function usageFinding(
+  usage: { file: string; line: number; column: number },
+  ruleId: string,
+  level: FindingLevel,
+  message: string
+): ReportFinding {
+  return { ruleId, level, message, file: usage.file, line: usage.line, column: usage.column };
+}
+
+/**
+ * Report for `findComponentsWithoutProp`; usages that depend on unresolvable spreads are
+ * notes.
+ */
+export function missingPropReport(
+  result: { missingPropUsages: MissingPropUsage[]; uncertainUsages: MissingPropUsage[] },
+  root: string
+): Report {
+  const describe = (usage: MissingPropUsage) =>
+    `${usage.componentName} is missing ${quoted(usage.missingProps)}`;
+  return {
+    root,
+    rules: [{ id: 'missing-prop', description: 'Component usage lacks a required prop' }],
+    findings: [
+      ...result.missingPropUsages.map((usage) =>
+        usageFinding(usage, 'missing-prop', 'error', describe(usage))
+      ),
+      ...result.uncertainUsages.map((usage) =>
+        usageFinding(
+          usage,
+          'missing-prop',
+          'note',
+          `${describe(usage)} unless passed by {...${usage.unresolvedSpreads?.join('}, {...')}}`
+        )
+      ),
+    ],
+  };
+}
+
+/**
+ * Report for `checkPropRules`, with one rule per checked rule id.
+ */
+export function propRulesReport(result: PropRulesResult, root: string): Report {
+  const describe = (violation: PropRulesResult['violations'][number]) =>
+    violation.message ?? `${violation.componentName} is missing ${quoted(violation.missingProps)}`;
+  return {
+    root,
+    rules: result.summary.rules.map(({ id }) => ({ id })),
+    findings: [
+      ...result.violations.map((violation) =>
+        usageFinding(violation, violation.ruleId, 'error', describe(violation))
+      ),
+      ...result.uncertainViolations.map((violation) =>
+        usageFinding(
+          violation,
+          violation.ruleId,
+          'note',
+          `${describe(violation)} (unless passed by a spread)`
+        )
+      ),
+    ],
+  };
+}
+
+/**
+ * Report for `auditProject`; rule severities map to levels, 'info' becoming a note.
+ */
+export function auditReport(result: AuditResult, root: string): Report {
+  const findings: ReportFinding[] = [];
+  for (const rule of result.rules) {
+    const level: FindingLevel = rule.severity === 'info' ? 'note' : rule.severity;
+    for (const finding of rule.findings) {
+      findings.push(usageFinding(finding, rule.id, level, finding.message));
+    }
+    for (const finding of rule.uncertainFindings) {
+      findings.push(
+        usageFinding(finding, rule.id, 'note', `${finding.message} (unless passed by a spread)`)
+      );
+    }
+  }
+  return {
+    root,
+    rules: result.rules.map((rule) => ({
+      id: rule.id,
+      description: `${rule.component}: ${rule.type} '${rule.prop}'`,
+    })),
+    findings,
+  };
+}
+
+/**
+ * Report for `findUnknownProps`; props a component forwards through `...rest` or may inherit
+ * from a props type that could not be expanded are notes.
+ */
+export function unknownPropsReport(
+  result: {
+    unknownPropUsages: UnknownPropUsage[];
+    forwardedPropUsages: UnknownPropUsage[];
+    uncertainPropUsages: UnknownPropUsage[];
+  },
+  root: string
+): Report {
+  const describe = (usage: UnknownPropUsage) =>
+    `${usage.componentName} does not declare ${quoted(usage.unknownProps)}`;
+  return {
+    root,
+    rules: [
+      { id: 'unknown-prop', description: 'Usage passes a prop the component does not declare' },
+    ],
+    findings: [
+      ...result.unknownPropUsages.map((usage) =>
+        usageFinding(usage, 'unknown-prop', 'warning', describe(usage))
+      ),
+      ...result.forwardedPropUsages.map((usage) =>
+        usageFinding(usage, 'unknown-prop', 'note', `${describe(usage)} (forwarded via ...rest)`)
+      ),
+      ...result.uncertainPropUsages.map((usage) =>
+        usageFinding(
+          usage,
+          'unknown-prop',
+          'note',
+          `${describe(usage)} (its props type could not be fully expanded)`
+        )
+      ),
+    ],
+  };
+}
+
+/** Path relative to the report root with forward slashes, or absolute when outside it */
+function reportPath(root: string, file: string): string {
+  const path = relative(root, file);
+  if (path.startsWith('..') || isAbsolute(path)) return file;
+  return path.split(sep).join('/');
+}
+
+function toSarif(report: Report): string {
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            rules: report.rules.map((rule) => ({
+              id: rule.id,
+              ...(rule.description && { shortDescription: { text: rule.description } }),
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: pathToFileURL(report.root + sep).href },
+        },
+        results: report.findings.map((finding) => {
+          const path = reportPath(report.root, finding.file);
+          const artifactLocation = isAbsolute(path)
+            ? { uri: pathToFileURL(path).href }
+            : { uri: path, uriBaseId: 'SRCROOT' };
+          return {
+            ruleId: finding.ruleId,
+            level: finding.level,
+            message: { text: finding.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation,
+                  region: { startLine: finding.line, startColumn: finding.column + 1 },
+                },
+              },
+            ],
+          };
+        }),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * One test suite per rule and one test case per finding: errors and warnings fail, notes
+ * are skipped. A rule without findings is a single passing test case.
+ */
+function toJUnit(report: Report): string {
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+  for (const rule of report.rules) {
+    const name = escapeXml(rule.id);
+    const findings = report.findings.filter((finding) => finding.ruleId === rule.id);
+    const failures = findings.filter((finding) => finding.level !== 'note').length;
+    const cases =
+      findings.length === 0
+        ? [`    <testcase name="${name}" classname="${name}"/>`]
+        : findings.map((finding) => {
+            const location = `${reportPath(report.root, finding.file)}:${finding.line}:${finding.column + 1}`;
+            const message = escapeXml(finding.message);
+            const outcome =
+              finding.level === 'note'
+                ? `<skipped message="${message}"/>`
+                : `<failure message="${message}" type="${finding.level}">${escapeXml(location)}: ${message}</failure>`;
+            return `    <testcase name="${escapeXml(location)}" classname="${name}">${outcome}</testcase>`;
+          });
+    const tests = Math.max(findings.length, 1);
+    const skipped = findings.length - failures;
+    suites.push(
+      `  <testsuite name="${name}" tests="${tests}" failures="${failures}" skipped="${skipped}">`,
+      ...cases,
+      '  </testsuite>'
+    );
+    totalTests += tests;
+    totalFailures += failures;
+  }
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${totalTests}" failures="${totalFailures}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/** Workflow command escaping; property values additionally escape `:` and `,` */
+function escapeAnnotation(text: string, property = false): string {
+  const escaped = text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  return property ? escaped.replace(/:/g, '%3A').replace(/,/g, '%2C') : escaped;
+}
+
+function toGitHubAnnotations(report: Report): string {
+  return report.findings
+    .map((finding) => {
+      const command = finding.level === 'note' ? 'notice' : finding.level;
+      const properties = [
+        `file=${escapeAnnotation(reportPath(report.root, finding.file), true)}`,
+        `line=${finding.line}`,
+        `col=${finding.column + 1}`,
+        `title=${escapeAnnotation(finding.ruleId, true)}`,
+      ];
+      return `::${command} ${properties.join(',')}::${escapeAnnotation(finding.message)}\n`;
+    })
+    .join('');
+}
+
+/**
+ * Render a report as SARIF 2.1.0, JUnit XML or GitHub Actions workflow commands. File paths
+ * are relative to `report.root`, and columns are 1-based in every format.
+ */
+export function formatReport(report: Report, format: Exclude<ReportFormat, 'json'>): string {
+  if (format === 'sarif') return toSarif(report);
+  if (format === 'junit') return toJUnit(report);
+  return toGitHubAnnotations(report);
+}
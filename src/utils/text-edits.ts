@@ -0,0 +1,192 @@
+import { createHash } from 'crypto';
+
+/** Replacement of the source text between two offsets; `start === end` inserts */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Apply edits to a source text, leaving everything outside the edited ranges untouched.
+ * Identical edits are applied once; overlapping edits are rejected.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  let result = '';
+  let offset = 0;
+  let previous: TextEdit | undefined;
+  for (const edit of sorted) {
+    if (
+      previous &&
+      previous.start === edit.start &&
+      previous.end === edit.end &&
+      previous.text === edit.text
+    ) {
+      continue;
+    }
+    if (edit.start < offset) {
+      throw new Error(`Overlapping edits at offset ${edit.start}`);
+    }
+    result += content.slice(offset, edit.start) + edit.text;
+    offset = edit.end;
+    previous = edit;
+  }
+  return result + content.slice(offset);
+}
+
+/**
+ * Hash of a source text, recorded with edits so they are only applied to the text they were
+ * computed from.
+ */
+export function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string };
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+/**
+ * Line diff of two texts via Myers' algorithm. Common leading and trailing lines are
+ * stripped first, so the search only spans the changed region.
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[max + k - 1] < v[max + k + 1])
+          ? v[max + k + 1]
+          : v[max + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[max + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the recorded frontiers back from the end to recover the edit script
+  const middle: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && frontier[max + k - 1] < frontier[max + k + 1]) ? k + 1 : k - 1;
+    const previousX = frontier[max + previousK];
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      middle.push({ kind: ' ', text: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === previousX) middle.push({ kind: '+', text: b[--y] });
+    else middle.push({ kind: '-', text: a[--x] });
+  }
+  middle.reverse();
+
+  return [
+    ...before.slice(0, prefix).map((text): DiffLine => ({ kind: ' ', text })),
+    ...middle,
+    ...before.slice(before.length - suffix).map((text): DiffLine => ({ kind: ' ', text })),
+  ];
+}
+
+/**
+ * Unified diff between two versions of a file, with `label` used in the `---`/`+++`
+ * headers. Returns an empty string when the texts are equal.
+ */
+export function createUnifiedDiff(label: string, before: string, after: string): string {
+  if (before === after) return '';
+  // A final newline terminates the last line rather than starting an empty one
+  const split = (text: string) => (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+  const lines = diffLines(split(before), split(after));
+
+  const hunks: string[] = [];
+  let index = 0;
+  // Line numbers (1-based) of lines[index] in the old and new text
+  let oldLine = 1;
+  let newLine = 1;
+  while (index < lines.length) {
+    const change = lines.findIndex((line, i) => i >= index && line.kind !== ' ');
+    if (change === -1) break;
+
+    const start = Math.max(index, change - CONTEXT_LINES);
+    for (let i = index; i < start; i++) {
+      oldLine++;
+      newLine++;
+    }
+    // Extend the hunk while the next change is within twice the context distance
+    let end = change;
+    for (let i = change; i < lines.length; i++) {
+      if (lines[i].kind !== ' ') end = i;
+      else if (i - end > 2 * CONTEXT_LINES) break;
+    }
+    end = Math.min(lines.length - 1, end + CONTEXT_LINES);
+
+    const body = lines.slice(start, end + 1);
+    const oldCount = body.filter((line) => line.kind !== '+').length;
+    const newCount = body.filter((line) => line.kind !== '-').length;
+    hunks.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+      ...body.map((line) => `${line.kind}${line.text}`)
+    );
+    oldLine += oldCount;
+    newLine += newCount;
+    index = end + 1;
+  }
+
+  return [`--- a/${label}`, `+++ b/${label}`, ...hunks, ''].join('\n');
+}
+
+/**
+ * Split the concatenated diffs of several files, as written by `createUnifiedDiff`, into one
+ * diff per file. Hunk line counts delimit the hunks, so changed lines that look like headers
+ * are not taken for one.
+ */
+export function splitUnifiedDiff(diff: string): string[] {
+  const files: string[][] = [];
+  let oldLines = 0;
+  let newLines = 0;
+  for (const line of diff.split('\n').slice(0, -1)) {
+    const hunk = /^@@ -\d+,(\d+) \+\d+,(\d+) @@/.exec(line);
+    if (oldLines > 0 || newLines > 0) {
+      if (line[0] !== '+') oldLines--;
+      if (line[0] !== '-') newLines--;
+    } else if (hunk) {
+      oldLines = Number(hunk[1]);
+      newLines = Number(hunk[2]);
+    } else if (line.startsWith('--- ')) {
+      files.push([]);
+    }
+    files[files.length - 1]?.push(line);
+  }
+  return files.map((lines) => [...lines, ''].join('\n'));
+}
@@ -0,0 +1,368 @@
+import { isAbsolute, relative, sep } from 'path';
+import type {
+  AnalysisResult,
+  AuditResult,
+  ComponentAnalysis,
+  MissingPropFix,
+  MissingPropUsage,
+  PropRulesResult,
+  PropUsage,
+  PropValueStats,
+  RenamePropResult,
+  UnknownPropUsage,
+  UnusedProps,
+} from '../jsx-analyzer.js';
+import { splitUnifiedDiff } from './text-edits.js';
+
+/**
+ * How tool results are written: 'full' is the indented result object, 'compact' the same
+ * object on one line with file paths relative to the searched directory, and 'minimal' one
+ * line of text per item.
+ */
+export const RESPONSE_FORMATS = ['full', 'compact', 'minimal'] as const;
+
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+/**
+ * Access to the list of items a tool result is paginated by. Results listing several kinds
+ * of items (e.g. definite and uncertain usages) page through them as one sequence, in order.
+ */
+export interface ResultPager<T> {
+  count(result: T): number;
+  /** The result with only items `start` to `end` (exclusive); summaries are kept whole */
+  slice(result: T, start: number, end: number): T;
+  /** One line per item, for the minimal format */
+  lines(result: T, root: string): string[];
+}
+
+export interface PageRequest {
+  limit?: number;
+  cursor?: string;
+  /** Characters a response may take before it is cut short; 0 for no limit */
+  maxChars: number;
+}
+
+export interface Page {
+  text: string;
+  /** Where the page lies in the result and how to continue, unless the page is the whole result */
+  note?: string;
+}
+
+/** File path fields shortened to relative paths by the compact and minimal formats */
+const PATH_KEYS = new Set(['file', 'definitionFile', 'configFile']);
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/** Path relative to the searched directory, or unchanged when outside it */
+function relativePath(root: string, file: string): string {
+  const path = relative(root, file);
+  if (path.startsWith('..') || isAbsolute(path)) return file;
+  return path.split(sep).join('/');
+}
+
+function location(item: { file: string; line: number; column: number }, root: string): string {
+  return `${relativePath(root, item.file)}:${item.line}:${item.column + 1}`;
+}
+
+/** Values printed from expressions may span lines */
+const oneLine = (text: string) => text.replace(/\s+/g, ' ');
+
+/**
+ * Pager for a result that is itself the list of items.
+ */
+function arrayPager<I>(line: (item: I, root: string) => string): ResultPager<I[]> {
+  return {
+    count: (result) => result.length,
+    slice: (result, start, end) => result.slice(start, end),
+    lines: (result, root) => result.map((item) => line(item, root)),
+  };
+}
+
+/**
+ * Pager over one or more top-level lists of a result object, in the order of `keys`.
+ */
+function listPager<T extends object, K extends keyof T>(
+  keys: K[],
+  line: (item: T[K] extends (infer I)[] ? I : never, key: K, root: string) => string
+): ResultPager<T> {
+  const lists = (result: T) => keys.map((key) => result[key] as unknown[]);
+  return {
+    count: (result) => lists(result).reduce((sum, list) => sum + list.length, 0),
+    slice: (result, start, end) => {
+      const sliced = { ...result };
+      let offset = 0;
+      for (const key of keys) {
+        const list = result[key] as unknown[];
+        sliced[key] = list.slice(Math.max(0, start - offset), Math.max(0, end - offset)) as T[K];
+        offset += list.length;
+      }
+      return sliced;
+    },
+    lines: (result, root) =>
+      keys.flatMap((key) =>
+        (result[key] as Parameters<typeof line>[0][]).map((item) => line(item, key, root))
+      ),
+  };
+}
+
+const propUsageLine = (usage: PropUsage, root: string) =>
+  `${location(usage, root)} ${usage.componentName} ${usage.propName}` +
+  (usage.value !== undefined ? `=${oneLine(usage.value)}` : '');
+
+const missingPropLine = (usage: MissingPropUsage, root: string) =>
+  `${location(usage, root)} ${usage.componentName} missing ${usage.missingProps.join(', ')}` +
+  (usage.unresolvedSpreads
+    ? ` unless passed by {...${usage.unresolvedSpreads.join('}, {...')}}`
+    : '');
+
+const componentLine = (component: ComponentAnalysis, root: string) =>
+  `${relativePath(root, component.file)} ${component.componentName} declares ` +
+  (component.props.map((prop) => prop.propName).join(', ') || 'no props');
+
+export const analysisPager = listPager<AnalysisResult, 'components' | 'propUsages'>(
+  ['components', 'propUsages'],
+  (item, key, root) =>
+    key === 'components'
+      ? componentLine(item as ComponentAnalysis, root)
+      : propUsageLine(item as PropUsage, root)
+);
+
+export const propUsagesPager = arrayPager<PropUsage>(propUsageLine);
+
+export const componentPropsPager = arrayPager<ComponentAnalysis>((component, root) => {
+  const props = component.propDefinitions
+    ? component.propDefinitions.map((prop) => `${prop.name}${prop.optional ? '?' : ''}`)
+    : component.props.map((prop) => prop.propName);
+  return `${relativePath(root, component.file)} ${component.componentName}(${props.join(', ')}) ${
+    component.callSites?.length ?? 0
+  } call sites`;
+});
+
+const missingUsagesPager = listPager<
+  { missingPropUsages: MissingPropUsage[]; uncertainUsages: MissingPropUsage[] },
+  'missingPropUsages' | 'uncertainUsages'
+>(['missingPropUsages', 'uncertainUsages'], (usage, _key, root) => missingPropLine(usage, root));
+
+/** Pages through the usages, then the fixed files, each with its own diff */
+export const missingPropPager: ResultPager<{
+  missingPropUsages: MissingPropUsage[];
+  uncertainUsages: MissingPropUsage[];
+  fix?: MissingPropFix;
+}> = {
+  count: (result) => missingUsagesPager.count(result) + (result.fix?.files.length ?? 0),
+  slice: (result, start, end) => {
+    const sliced = missingUsagesPager.slice(result, start, end);
+    if (!result.fix) return sliced;
+    const offset = missingUsagesPager.count(result);
+    const files = result.fix.files.slice(Math.max(0, start - offset), Math.max(0, end - offset));
+    return { ...sliced, fix: { ...result.fix, files } };
+  },
+  lines: (result, root) => [
+    ...missingUsagesPager.lines(result, root),
+    ...(result.fix?.files ?? []).map(
+      (file) => `${relativePath(root, file.file)} fix: ${file.insertions} insertions`
+    ),
+  ],
+};
+
+export const unusedPropsPager = listPager<{ components: UnusedProps[] }, 'components'>(
+  ['components'],
+  (component, _key, root) =>
+    `${relativePath(root, component.file)} ${component.componentName} unused ${component.unusedProps.join(', ')}` +
+    (component.uncertain ? ' (uncertain: spread call sites)' : '')
+);
+
+const UNKNOWN_PROP_QUALIFIERS = {
+  unknownPropUsages: '',
+  forwardedPropUsages: ' (forwarded via ...rest)',
+  uncertainPropUsages: ' (uncertain: props type not fully expanded)',
+};
+
+export const unknownPropsPager = listPager<
+  {
+    unknownPropUsages: UnknownPropUsage[];
+    forwardedPropUsages: UnknownPropUsage[];
+    uncertainPropUsages: UnknownPropUsage[];
+  },
+  keyof typeof UNKNOWN_PROP_QUALIFIERS
+>(
+  ['unknownPropUsages', 'forwardedPropUsages', 'uncertainPropUsages'],
+  (usage, key, root) =>
+    `${location(usage, root)} ${usage.componentName} unknown ${usage.unknownProps.join(', ')}` +
+    UNKNOWN_PROP_QUALIFIERS[key]
+);
+
+export const propValueStatsPager = listPager<{ values: PropValueStats[] }, 'values'>(
+  ['values'],
+  (stats) =>
+    `${stats.count}x ${oneLine(stats.value)} (${stats.valueKind}, ${stats.percentage.toFixed(1)}%)`
+);
+
+const renameListPager = listPager<RenamePropResult, 'files' | 'conflicts'>(
+  ['files', 'conflicts'],
+  (item, key, root) => {
+    if (key === 'files') {
+      const file = item as RenamePropResult['files'][number];
+      return `${relativePath(root, file.file)} ${file.callSites} call sites, ${file.definitionEdits} definition edits`;
+    }
+    const conflict = item as RenamePropResult['conflicts'][number];
+    return `${location(conflict, root)} ${conflict.componentName} conflict: ${conflict.reason}`;
+  }
+);
+
+/**
+ * Pages through changed files, then conflicts. The diff holds one part per changed file, in
+ * the same order, so each page carries the diffs of its own files.
+ */
+export const renamePager: ResultPager<RenamePropResult> = {
+  ...renameListPager,
+  slice: (result, start, end) => {
+    const sliced = renameListPager.slice(result, start, end);
+    const first = Math.min(start, result.files.length);
+    const diffs = splitUnifiedDiff(result.diff).slice(first, first + sliced.files.length);
+    return { ...sliced, diff: diffs.join('') };
+  },
+};
+
+export const propRulesPager = listPager<PropRulesResult, 'violations' | 'uncertainViolations'>(
+  ['violations', 'uncertainViolations'],
+  (violation, _key, root) =>
+    violation.message
+      ? `${location(violation, root)} [${violation.ruleId}] ${violation.message}`
+      : `[${violation.ruleId}] ${missingPropLine(violation, root)}`
+);
+
+/**
+ * Pages through the findings of every rule, definite ones first within each rule. Rules are
+ * kept on every page, with only the findings of that page.
+ */
+export function auditPager<T extends AuditResult>(): ResultPager<T> {
+  const sizes = (result: T) =>
+    result.rules.map((rule) => rule.findings.length + rule.uncertainFindings.length);
+  return {
+    count: (result) => sizes(result).reduce((sum, size) => sum + size, 0),
+    slice: (result, start, end) => {
+      let offset = 0;
+      const rules = result.rules.map((rule) => {
+        const from = Math.max(0, start - offset);
+        const to = Math.max(0, end - offset);
+        const definite = rule.findings.length;
+        offset += definite + rule.uncertainFindings.length;
+        return {
+          ...rule,
+          findings: rule.findings.slice(from, to),
+          uncertainFindings: rule.uncertainFindings.slice(
+            Math.max(0, from - definite),
+            Math.max(0, to - definite)
+          ),
+        };
+      });
+      return { ...result, rules };
+    },
+    lines: (result, root) =>
+      result.rules.flatMap((rule) => [
+        ...rule.findings.map(
+          (finding) => `${location(finding, root)} ${rule.severity} [${rule.id}] ${finding.message}`
+        ),
+        ...rule.uncertainFindings.map(
+          (finding) =>
+            `${location(finding, root)} uncertain [${rule.id}] ${finding.message} (unless passed by a spread)`
+        ),
+      ]),
+  };
+}
+
+/**
+ * Write a result in one of the response formats.
+ */
+export function renderResult<T>(
+  result: T,
+  pager: ResultPager<T>,
+  format: ResponseFormat,
+  root: string
+): string {
+  if (format === 'full') return JSON.stringify(result, null, 2);
+  if (format === 'compact') {
+    return JSON.stringify(result, (key, value) =>
+      PATH_KEYS.has(key) && typeof value === 'string' ? relativePath(root, value) : value
+    );
+  }
+  const summary = (result as { summary?: unknown }).summary;
+  const lines = pager.lines(result, root);
+  return [
+    ...(summary ? [`summary: ${JSON.stringify(summary)}`] : []),
+    ...(lines.length > 0 ? lines : ['(no items)']),
+  ].join('\n');
+}
+
+/**
+ * Render the page of `result` a request asks for. Pages start at the cursor and hold up to
+ * `limit` items; when the rendered page exceeds the character budget, it holds as many items
+ * as fit instead, and the note carries a cursor for the rest. A single item too large for the
+ * budget is cut off mid-text, so that paging always moves forward.
+ */
+export function renderPage<T>(
+  result: T,
+  pager: ResultPager<T>,
+  render: (result: T) => string,
+  request: PageRequest
+): Page {
+  const total = pager.count(result);
+  const start = request.cursor ? decodeCursor(request.cursor) : 0;
+  if (start > total) {
+    throw new Error(`Cursor is past the end of the result (${total} items)`);
+  }
+  const end = request.limit ? Math.min(total, start + request.limit) : total;
+  const renderItems = (count: number) =>
+    count === total && start === 0
+      ? render(result)
+      : render(pager.slice(result, start, start + count));
+  const fits = (text: string) => request.maxChars <= 0 || text.length <= request.maxChars;
+
+  let count = end - start;
+  let text = renderItems(count);
+  let overBudget = false;
+  let cut = false;
+  if (!fits(text)) {
+    overBudget = true;
+    // The largest count that fits; the full page is known not to
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (fits(renderItems(mid))) low = mid;
+      else high = mid - 1;
+    }
+    count = low;
+    text = renderItems(count);
+    if (!fits(text) || (count === 0 && end > start)) {
+      count = Math.min(1, end - start);
+      text = renderItems(count).slice(0, request.maxChars);
+      cut = true;
+    }
+  }
+
+  const next = start + count;
+  if (start === 0 && next === total && !overBudget) return { text };
+  const range = count > 0 ? `items ${start + 1}-${next} of ${total}` : `0 of ${total} items`;
+  const reason = cut
+    ? ` Output cut at ${request.maxChars} characters; use the minimal format (which leaves out diffs) or a narrower query to see it whole.`
+    : overBudget
+      ? ` The page was shortened to fit the ${request.maxChars}-character response budget.`
+      : '';
+  const continuation =
+    next < total ? ` Pass cursor "${encodeCursor(next)}" to continue.` : ' This is the last page.';
+  return { text, note: `Showing ${range}.${reason}${continuation}` };
+}
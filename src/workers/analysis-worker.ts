@@ -0,0 +1,27 @@
+import { workerData } from 'worker_threads';
+import { JSXPropAnalyzer } from '../jsx-analyzer.js';
+import type { AnalyzerOptions, FileTask, FileTaskOutput } from '../jsx-analyzer.js';
+import { ModuleResolver } from '../services/module-resolver.js';
+import { serveWorkerTasks } from '../services/worker-pool.js';
+
+/**
+ * Worker thread entry point: analyzes the files dispatched by a {@link JSXPropAnalyzer}'s
+ * worker pool, keeping one module resolver per analysis run until the run ends.
+ */
+const analyzer = new JSXPropAnalyzer({ ...(workerData as AnalyzerOptions), workers: 0 });
+const resolvers = new Map<number, ModuleResolver>();
+
+serveWorkerTasks<FileTask, FileTaskOutput>(
+  (task) => {
+    let resolver = resolvers.get(task.runId);
+    if (!resolver) {
+      resolver = new ModuleResolver();
+      resolvers.set(task.runId, resolver);
+    }
+    return analyzer.runFileTask(task, resolver);
+  },
+  (message) => {
+    const { endRun } = message as { endRun?: number };
+    if (endRun !== undefined) resolvers.delete(endRun);
+  }
+);
@@ -0,0 +1,182 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('analysis cache', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-cache');
+  const srcDir = path.join(tmpDir, 'src');
+  const cacheDir = path.join(tmpDir, 'cache');
+  const appFile = path.join(srcDir, 'App.tsx');
+  const buttonFile = path.join(srcDir, 'Button.tsx');
+
+  before(() => {
+    fs.mkdirSync(srcDir, { recursive: true });
+    fs.writeFileSync(
+      buttonFile,
+      `export interface ButtonProps { label: string }
+export const Button = ({ label }: ButtonProps) => <button>{label}</button>;
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      appFile,
+      `import { Button } from './Button';
+export const App = () => <Button label="Save" />;
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const usages = async (analyzer) =>
+    (await analyzer.findPropUsage('label', srcDir))
+      .map((u) => `${u.componentName}:${u.value ?? ''}`)
+      .sort();
+
+  test('reuses entries while size and mtime are unchanged', async () => {
+    // Whole-second mtimes survive utimes round trips exactly
+    const mtime = new Date('2024-01-01T00:00:00Z');
+    fs.utimesSync(appFile, mtime, mtime);
+    assert.deepStrictEqual(await usages(new JSXPropAnalyzer({ cacheDir })), [
+      'Button:',
+      'Button:Save',
+    ]);
+    assert.ok(fs.readdirSync(cacheDir).length > 0, 'Should write cache entries');
+
+    // Same size and mtime: a fresh analyzer must serve the stale cached result
+    fs.writeFileSync(appFile, fs.readFileSync(appFile, 'utf8').replace('"Save"', '"Edit"'), 'utf8');
+    fs.utimesSync(appFile, mtime, mtime);
+    assert.deepStrictEqual(await usages(new JSXPropAnalyzer({ cacheDir })), [
+      'Button:',
+      'Button:Save',
+    ]);
+  });
+
+  test('invalidates entries when the file changes', async () => {
+    fs.writeFileSync(
+      appFile,
+      `import { Button } from './Button';
+export const App = () => <Button label="Delete" />;
+`,
+      'utf8'
+    );
+    assert.deepStrictEqual(await usages(new JSXPropAnalyzer({ cacheDir })), [
+      'Button:',
+      'Button:Delete',
+    ]);
+  });
+
+  test('invalidates entries when an imported module changes', async () => {
+    const analyzer = new JSXPropAnalyzer({ cacheDir });
+    const [before] = await analyzer.getComponentProps('Button', srcDir);
+    assert.deepStrictEqual(
+      before.propDefinitions.map((p) => p.name),
+      ['label']
+    );
+
+    fs.writeFileSync(
+      buttonFile,
+      `export interface ButtonProps { label: string; icon?: string }
+export const Button = ({ label }: ButtonProps) => <button>{label}</button>;
+`,
+      'utf8'
+    );
+    const [after] = await new JSXPropAnalyzer({ cacheDir }).getComponentProps('Button', srcDir);
+    assert.deepStrictEqual(
+      after.propDefinitions.map((p) => p.name),
+      ['label', 'icon']
+    );
+    assert.strictEqual(after.callSites.length, 1);
+    assert.strictEqual(after.callSites[0].definitionFile, buttonFile);
+  });
+
+  test('invalidates entries when a missing import target is created', async () => {
+    const pageFile = path.join(srcDir, 'Page.tsx');
+    const panelFile = path.join(srcDir, 'Panel.tsx');
+    fs.writeFileSync(
+      pageFile,
+      `import { Panel } from './Panel';
+export const Page = () => <Panel title="Home" />;
+`,
+      'utf8'
+    );
+    try {
+      assert.deepStrictEqual(
+        await new JSXPropAnalyzer({ cacheDir }).getComponentProps('Panel', srcDir),
+        []
+      );
+
+      fs.writeFileSync(
+        panelFile,
+        `export const Panel = ({ title }: { title: string }) => <h1>{title}</h1>;
+`,
+        'utf8'
+      );
+      const [panel] = await new JSXPropAnalyzer({ cacheDir }).getComponentProps('Panel', srcDir);
+      assert.deepStrictEqual(
+        panel.callSites.map((site) => site.file),
+        [pageFile]
+      );
+    } finally {
+      fs.rmSync(pageFile, { force: true });
+      fs.rmSync(panelFile, { force: true });
+    }
+  });
+
+  test('ignores entries written with different analyzer options', async () => {
+    const mtime = new Date('2024-01-02T00:00:00Z');
+    fs.utimesSync(appFile, mtime, mtime);
+    assert.deepStrictEqual(await usages(new JSXPropAnalyzer({ cacheDir })), [
+      'Button:',
+      'Button:Delete',
+    ]);
+
+    fs.writeFileSync(
+      appFile,
+      fs.readFileSync(appFile, 'utf8').replace('"Delete"', '"Rename"'),
+      'utf8'
+    );
+    fs.utimesSync(appFile, mtime, mtime);
+    assert.deepStrictEqual(await usages(new JSXPropAnalyzer({ cacheDir })), [
+      'Button:',
+      'Button:Delete',
+    ]);
+    const analyzer = new JSXPropAnalyzer({ cacheDir, customHocs: ['withTracking'] });
+    assert.deepStrictEqual(await usages(analyzer), ['Button:', 'Button:Rename']);
+  });
+
+  test('keeps entries private and removes stale ones when writing', async () => {
+    const pruneDir = path.join(tmpDir, 'prune-cache');
+    const cardFile = path.join(srcDir, 'Card.tsx');
+    const entries = (file) =>
+      fs
+        .readdirSync(path.join(pruneDir, createHash('sha1').update(file).digest('hex')))
+        .filter((name) => name.endsWith('.json'));
+
+    fs.writeFileSync(cardFile, `export const Card = () => <Button label="One" />;\n`, 'utf8');
+    await new JSXPropAnalyzer({ cacheDir: pruneDir }).findPropUsage('label', srcDir);
+    assert.strictEqual(fs.statSync(pruneDir).mode & 0o777, 0o700);
+    const [first] = entries(cardFile);
+
+    fs.writeFileSync(cardFile, `export const Card = () => <Button label="Two" />;\n`, 'utf8');
+    await new JSXPropAnalyzer({ cacheDir: pruneDir }).findPropUsage('label', srcDir);
+    const [second, ...rest] = entries(cardFile);
+    assert.deepStrictEqual(rest, []);
+    assert.notStrictEqual(second, first);
+
+    fs.rmSync(cardFile);
+    fs.writeFileSync(appFile, fs.readFileSync(appFile, 'utf8') + '\n', 'utf8');
+    await new JSXPropAnalyzer({ cacheDir: pruneDir }).findPropUsage('label', srcDir);
+    assert.throws(() => entries(cardFile), /ENOENT/);
+    assert.strictEqual(entries(appFile).length, 1);
+  });
+});
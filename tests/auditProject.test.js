@@ -0,0 +1,162 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+import { findProjectConfig, loadProjectConfig } from '../dist/config/project-config.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('project rule config and audit', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-audit');
+  const analyzer = new JSXPropAnalyzer();
+
+  const config = {
+    rules: [
+      {
+        id: 'button-type',
+        type: 'required-prop',
+        component: 'Button',
+        prop: 'type',
+        when: { inside: 'form' },
+      },
+      {
+        type: 'forbidden-prop',
+        component: 'Box',
+        prop: 'style',
+        severity: 'warning',
+        message: 'Use the sx prop',
+      },
+      {
+        type: 'allowed-values',
+        component: 'Button',
+        prop: 'size',
+        values: ['sm', 'md', 'lg'],
+        severity: 'info',
+      },
+    ],
+  };
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, '.jsxproprc.json'), JSON.stringify(config, null, 2));
+    fs.writeFileSync(
+      path.join(tmpDir, 'Page.tsx'),
+      `import { Box, Button } from './ui';
+
+export function Page({ size }) {
+  return (
+    <Box style={{ padding: 4 }}>
+      <form>
+        <Button size="xl">Send</Button>
+        <Button type="reset" size={size}>Reset</Button>
+      </form>
+      <Button size={'md'}>Cancel</Button>
+      <Box sx={{ margin: 2 }} />
+    </Box>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('finds and validates the config in the project root', async () => {
+    const file = findProjectConfig(tmpDir);
+    assert.strictEqual(file, path.join(tmpDir, '.jsxproprc.json'));
+    const loaded = await loadProjectConfig(file);
+    assert.deepStrictEqual(loaded.rules, config.rules);
+  });
+
+  test('groups findings by rule with severities', async () => {
+    const result = await analyzer.auditProject(config.rules, tmpDir);
+
+    assert.deepStrictEqual(
+      result.rules.map((rule) => [
+        rule.id,
+        rule.severity,
+        rule.findings.map((f) => [f.line, f.message]),
+      ]),
+      [
+        ['button-type', 'error', [[7, "Button is missing 'type'"]]],
+        ['forbidden-prop:Box:style', 'warning', [[5, 'Use the sx prop']]],
+        [
+          'allowed-values:Button:size',
+          'info',
+          [[7, 'Button passes "xl" for \'size\'; allowed: "sm", "md", "lg"']],
+        ],
+      ]
+    );
+    assert.strictEqual(result.rules[2].findings[0].value, 'xl');
+    assert.deepStrictEqual(result.summary, {
+      filesScanned: 1,
+      totalFindings: 3,
+      errors: 1,
+      warnings: 1,
+      infos: 1,
+      uncertainCount: 0,
+    });
+  });
+
+  test('reports invalid configs with the offending path', async () => {
+    const file = path.join(tmpDir, 'invalid.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ rules: [{ type: 'required-prop', component: 'Button' }] })
+    );
+    await assert.rejects(loadProjectConfig(file), /Invalid config[\s\S]*rules\[0\]\.prop/);
+  });
+
+  test('loads the default export of a JavaScript config', async () => {
+    const file = path.join(tmpDir, 'jsx-prop-lookup.config.mjs');
+    fs.writeFileSync(
+      file,
+      `export default { rules: [{ type: 'forbidden-prop', component: 'Box', prop: 'style' }] };\n`
+    );
+    const loaded = await loadProjectConfig(file, { allowModules: true });
+    assert.deepStrictEqual(loaded.rules, [
+      { type: 'forbidden-prop', component: 'Box', prop: 'style' },
+    ]);
+    fs.rmSync(file);
+  });
+
+  test('does not run config modules unless allowed', async () => {
+    const file = path.join(tmpDir, 'rules.mjs');
+    const marker = path.join(tmpDir, 'ran');
+    fs.writeFileSync(
+      file,
+      `import fs from 'fs';\nfs.writeFileSync(${JSON.stringify(marker)}, '');\nexport default { rules: [] };\n`
+    );
+
+    await assert.rejects(loadProjectConfig(file), /run their code when loaded/);
+    assert.strictEqual(fs.existsSync(marker), false);
+    fs.rmSync(file);
+  });
+
+  test('numbers generated rule ids shared by several rules', async () => {
+    const rule = { type: 'required-prop', component: 'Button', prop: 'type' };
+    const result = await analyzer.auditProject(
+      [
+        rule,
+        { ...rule, when: { inside: 'form' } },
+        { ...rule, id: 'required-prop:Button:type:2', severity: 'info' },
+      ],
+      tmpDir
+    );
+
+    assert.deepStrictEqual(
+      result.rules.map((r) => r.id),
+      ['required-prop:Button:type', 'required-prop:Button:type:3', 'required-prop:Button:type:2']
+    );
+  });
+
+  test('rejects duplicate rule ids', async () => {
+    const rule = { id: 'dup', type: 'forbidden-prop', component: 'Box', prop: 'style' };
+    await assert.rejects(analyzer.auditProject([rule, rule], tmpDir), /Duplicate rule id: dup/);
+  });
+});
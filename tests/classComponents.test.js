@@ -0,0 +1,86 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('class components', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-classes');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Legacy.tsx'),
+      `import React, { PureComponent } from 'react';
+
+interface PanelSettings {
+  heading: string;
+  collapsed?: boolean;
+  onToggle?: () => void;
+}
+
+export class Panel extends React.Component<PanelSettings, { open: boolean }> {
+  static defaultProps = { collapsed: false };
+
+  handleClick = () => {
+    this.props.onToggle?.();
+  };
+
+  render() {
+    const { heading, collapsed } = this.props;
+    return <section hidden={collapsed}>{heading}</section>;
+  }
+}
+
+export const Row = class extends PureComponent {
+  render() {
+    return <tr>{this.props.cells}</tr>;
+  }
+};
+
+class NotAComponent {
+  render() {
+    return null;
+  }
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reports class components with props from this.props and destructuring', async () => {
+    const result = await analyzer.analyzeProps(tmpDir);
+    const names = result.components.map((c) => c.componentName).sort();
+    assert.ok(names.includes('Panel'), 'Should find Panel class component');
+    assert.ok(names.includes('Row'), 'Should find class expression assigned to Row');
+    assert.ok(!names.includes('NotAComponent'), 'Should skip plain classes');
+
+    const panel = result.components.find((c) => c.componentName === 'Panel');
+    const propNames = panel.props.map((p) => p.propName).sort();
+    assert.deepStrictEqual(propNames, ['collapsed', 'heading', 'onToggle']);
+    assert.strictEqual(panel.props.find((p) => p.propName === 'collapsed').defaultValue, 'false');
+
+    const row = result.components.find((c) => c.componentName === 'Row');
+    assert.deepStrictEqual(
+      row.props.map((p) => p.propName),
+      ['cells']
+    );
+  });
+
+  test('binds the props type from the base class generic', async () => {
+    const [panel] = await analyzer.getComponentProps('Panel', tmpDir);
+    assert.strictEqual(panel.propsInterface, 'PanelSettings');
+    assert.deepStrictEqual(
+      panel.propDefinitions.map((p) => p.name),
+      ['heading', 'collapsed', 'onToggle']
+    );
+  });
+});
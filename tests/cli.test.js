@@ -0,0 +1,134 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const cliPath = path.resolve(__dirname, '../dist/index.js');
+
+describe('CLI subcommands', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-cli');
+
+  // Report paths default to the GitHub Actions checkout, so keep a CI run's out of the tests
+  const { GITHUB_WORKSPACE: _, ...env } = process.env;
+  const run = (...args) =>
+    spawnSync('node', [cliPath, ...args, '--workers', '0', '--no-cache'], {
+      cwd: tmpDir,
+      env,
+      encoding: 'utf8',
+      timeout: 60000,
+    });
+
+  before(() => {
+    // Stands in for the repository root that report paths are relative to
+    fs.mkdirSync(path.join(tmpDir, '.git'), { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `export function Button({ type = 'button', size }: { type?: string; size: 'sm' | 'lg' }) {
+  return <button type={type} />;
+}
+
+export const App = () => (
+  <form>
+    <Button size="sm">Save</Button>
+    <Button type="submit" size="lg">Send</Button>
+  </form>
+);
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('prints prop usages as a table', () => {
+    const result = run('usage', 'size');
+
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.deepStrictEqual(result.stdout.trimEnd().split('\n'), [
+      'Location      Component  Value',
+      '------------  ---------  -----',
+      'App.tsx:1:43  Button',
+      'App.tsx:7:13  Button     sm',
+      'App.tsx:8:27  Button     lg',
+    ]);
+  });
+
+  test('prints component props as JSON', () => {
+    const result = run('component', 'Button', '--format', 'json');
+
+    assert.strictEqual(result.status, 0, result.stderr);
+    const [button] = JSON.parse(result.stdout);
+    assert.deepStrictEqual(
+      button.propDefinitions.map((prop) => prop.name),
+      ['type', 'size']
+    );
+  });
+
+  test('exits non-zero when missing-prop findings exceed the threshold', () => {
+    const failing = run('missing', 'Button', 'type', '--format', 'github-annotations');
+    assert.strictEqual(failing.status, 1);
+    assert.strictEqual(
+      failing.stdout,
+      "::error file=App.tsx,line=7,col=5,title=missing-prop::Button is missing 'type'\n"
+    );
+    assert.match(failing.stderr, /1 finding exceeds the allowed maximum of 0/);
+
+    assert.strictEqual(run('missing', 'Button', 'type', '--max-findings', '1').status, 0);
+  });
+
+  test('audits the project config, counting findings from --fail-on up', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, '.jsxproprc.json'),
+      JSON.stringify({
+        rules: [
+          {
+            type: 'allowed-values',
+            component: 'Button',
+            prop: 'size',
+            values: ['sm'],
+            severity: 'warning',
+          },
+        ],
+      })
+    );
+
+    const lenient = run('audit');
+    assert.strictEqual(lenient.status, 0, lenient.stderr);
+    assert.match(lenient.stdout, /App\.tsx:8:5 +warning +allowed-values:Button:size/);
+    assert.strictEqual(run('audit', '--fail-on', 'warning').status, 1);
+  });
+
+  test('reports paths relative to the repository root when auditing a subdirectory', () => {
+    const packageDir = path.join(tmpDir, 'packages', 'web');
+    fs.mkdirSync(path.join(packageDir, 'src'), { recursive: true });
+    fs.writeFileSync(
+      path.join(packageDir, 'src', 'Card.tsx'),
+      `export const Card = () => <Box style={{}} />;\n`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(packageDir, '.jsxproprc.json'),
+      JSON.stringify({ rules: [{ type: 'forbidden-prop', component: 'Box', prop: 'style' }] })
+    );
+    const annotations = (...args) =>
+      run('audit', '--dir', 'packages/web', '--format', 'github-annotations', ...args).stdout;
+
+    assert.match(annotations(), /^::error file=packages\/web\/src\/Card\.tsx,line=1,col=27,/);
+    assert.match(annotations('--root', 'packages/web'), /^::error file=src\/Card\.tsx,/);
+    const sarif = JSON.parse(run('audit', '--dir', 'packages/web', '--format', 'sarif').stdout);
+    assert.strictEqual(sarif.runs[0].originalUriBaseIds.SRCROOT.uri, `file://${tmpDir}/`);
+    fs.rmSync(path.join(tmpDir, 'packages'), { recursive: true });
+  });
+
+  test('rejects invalid arguments with exit code 2', () => {
+    const result = run('usage');
+    assert.strictEqual(result.status, 2);
+    assert.match(result.stderr, /Missing <prop> argument for usage/);
+    assert.strictEqual(run('usage', 'size', '--format', 'sarif').status, 2);
+  });
+});
@@ -0,0 +1,72 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const examplesDir = path.resolve(__dirname, '../examples/sample-components');
+
+describe('default value extraction', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-defaults');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Defaults.tsx'),
+      `import React from 'react';
+
+interface AvatarProps {
+  size?: number;
+  shape?: string;
+  alt?: string;
+}
+
+export function Avatar({ size = -1, shape, alt = getAlt() }: AvatarProps) {
+  return <img width={size} alt={alt} data-shape={shape} />;
+}
+
+Avatar.defaultProps = {
+  shape: 'circle',
+  size: 32,
+  ring: false,
+};
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reads destructuring defaults from the example Button', async () => {
+    const [button] = await analyzer.getComponentProps('Button', examplesDir);
+    const defaults = Object.fromEntries(button.props.map((p) => [p.propName, p.defaultValue]));
+
+    assert.strictEqual(defaults.disabled, 'false');
+    assert.strictEqual(defaults.variant, 'primary');
+    assert.strictEqual(defaults.onClick, undefined);
+
+    const variant = button.propDefinitions.find((p) => p.name === 'variant');
+    assert.strictEqual(variant.defaultValue, 'primary');
+  });
+
+  test('merges defaultProps, keeping destructuring defaults first', async () => {
+    const [avatar] = await analyzer.getComponentProps('Avatar', tmpDir);
+    const defaults = Object.fromEntries(avatar.props.map((p) => [p.propName, p.defaultValue]));
+
+    assert.deepStrictEqual(defaults, {
+      size: '-1',
+      shape: 'circle',
+      alt: 'getAlt()',
+      ring: 'false',
+    });
+    assert.strictEqual(
+      avatar.propDefinitions.find((p) => p.name === 'shape').defaultValue,
+      'circle'
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { spawn } from 'node:child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpHttpServer } from '../dist/services/http-server.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const serverPath = path.resolve(__dirname, '../dist/index.js');
+
+const TOKEN = 'test-token';
+
+describe('Streamable HTTP transport', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-http');
+  let child;
+  let url;
+
+  const post = (message, headers = {}) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${TOKEN}`,
+        ...headers,
+      },
+      body: JSON.stringify(message),
+    });
+
+  // Responses arrive as server-sent events; each `data:` line holds a JSON-RPC message
+  const readMessage = async (response) => {
+    const text = await response.text();
+    const data = text.split('\n').find((line) => line.startsWith('data:'));
+    return JSON.parse(data ? data.slice('data:'.length) : text);
+  };
+
+  const initialize = async () => {
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'http-test', version: '1.0.0' },
+      },
+    });
+    assert.strictEqual(response.status, 200);
+    await readMessage(response);
+    const sessionId = response.headers.get('mcp-session-id');
+    const headers = { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' };
+    await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, headers);
+    return headers;
+  };
+
+  before(async () => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `export const App = () => <Button size="sm">Save</Button>;\n`,
+      'utf8'
+    );
+    child = spawn(
+      'node',
+      [
+        serverPath,
+        '--transport=http',
+        '--port',
+        '0',
+        '--allowed-roots',
+        tmpDir,
+        '--workers',
+        '0',
+        '--no-cache',
+      ],
+      { cwd: tmpDir, env: { ...process.env, MCP_AUTH_TOKEN: TOKEN }, stdio: 'pipe' }
+    );
+    url = await new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Server did not start within 20s')), 20000);
+      let stderr = '';
+      child.stderr.on('data', (chunk) => {
+        stderr += chunk;
+        const match = stderr.match(/listening on (\S+)/);
+        if (match) {
+          clearTimeout(timer);
+          resolve(match[1]);
+        }
+      });
+      child.on('exit', (code) => reject(new Error(`Server exited with ${code}: ${stderr}`)));
+    });
+  });
+
+  after(() => {
+    if (child.exitCode === null) process.kill(child.pid);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('rejects requests without the bearer token', async () => {
+    const wrongToken = { Authorization: 'Bearer wrong' };
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, wrongToken);
+
+    assert.strictEqual(response.status, 401);
+    assert.strictEqual(response.headers.get('www-authenticate'), 'Bearer');
+  });
+
+  test('serves tools to an initialized session', async () => {
+    const headers = await initialize();
+    assert.ok(headers['mcp-session-id']);
+
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers);
+    const message = await readMessage(response);
+
+    const toolNames = message.result.tools.map((tool) => tool.name);
+    assert.ok(toolNames.includes('find_prop_usage'));
+  });
+
+  test('keeps sessions separate', async () => {
+    const first = await initialize();
+    const second = await initialize();
+
+    assert.notStrictEqual(first['mcp-session-id'], second['mcp-session-id']);
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, second);
+    assert.ok((await readMessage(response)).result.tools.length > 0);
+  });
+
+  test('applies the allowed roots to every request', async () => {
+    const headers = await initialize();
+    const call = async (directory) => {
+      const response = await post(
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: { name: 'find_prop_usage', arguments: { propName: 'size', directory } },
+        },
+        headers
+      );
+      return (await readMessage(response)).result;
+    };
+
+    const inside = await call(tmpDir);
+    assert.ok(!inside.isError, inside.content[0].text);
+    assert.strictEqual(JSON.parse(inside.content[0].text).length, 1);
+
+    const outside = await call(path.dirname(tmpDir));
+    assert.strictEqual(outside.isError, true);
+  });
+
+  test('rejects unknown sessions', async () => {
+    const response = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': 'no-such-session' }
+    );
+
+    assert.strictEqual(response.status, 404);
+  });
+});
+
+describe('HTTP session idle timeout', () => {
+  let server;
+  let url;
+
+  before(async () => {
+    server = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => new McpServer({ name: 'idle-test', version: '1.0.0' }),
+      sessionIdleTimeoutMs: 200,
+    });
+    url = await server.listen();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const post = (message, headers = {}) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(message),
+    });
+
+  test('closes sessions without requests for the timeout', async () => {
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'idle-test', version: '1.0.0' },
+      },
+    });
+    await response.text();
+    const headers = {
+      'mcp-session-id': response.headers.get('mcp-session-id'),
+      'mcp-protocol-version': '2025-03-26',
+    };
+    const ping = async () => {
+      const reply = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, headers);
+      await reply.text();
+      return reply.status;
+    };
+
+    // Each request restarts the timeout
+    for (let i = 0; i < 3; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      assert.strictEqual(await ping(), 200);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    assert.strictEqual(await ping(), 404);
+  });
+});
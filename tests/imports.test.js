@@ -0,0 +1,141 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('import-aware component identity', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-imports');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Screen.tsx'),
+      `import React from 'react';
+import { Button } from './Button';
+import { Button as UIButton } from '@acme/ui';
+import * as MUI from '@mui/material';
+
+export const Screen = () => (
+  <div>
+    <Button variant="local" />
+    <UIButton variant="design" />
+    <MUI.Button variant="mui" />
+  </div>
+);
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.tsx'),
+      `export const Button = ({ variant }: { variant: string }) => <button className={variant} />;
+`,
+      'utf8'
+    );
+  });
+
+  before(() => {
+    const widget = (dir) => {
+      fs.mkdirSync(path.join(tmpDir, dir), { recursive: true });
+      fs.writeFileSync(
+        path.join(tmpDir, dir, 'components.tsx'),
+        `export const Button = ({ tone }: { tone: string }) => <button className={tone} />;
+`,
+        'utf8'
+      );
+    };
+    widget('widgets');
+    widget('other');
+    fs.mkdirSync(path.join(tmpDir, 'pages'), { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'pages', 'Home.tsx'),
+      `import { Button } from '../widgets/components';
+import { Button as OtherButton } from '../other/components';
+
+export const Home = () => (
+  <>
+    <Button tone="widget" />
+    <OtherButton tone="other" />
+  </>
+);
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('attaches import source and original name to JSX usages', async () => {
+    const usages = await analyzer.findPropUsage('variant', tmpDir);
+    const byValue = (v) => usages.find((u) => u.value === v);
+
+    assert.deepStrictEqual(
+      [byValue('local')?.importSource, byValue('local')?.importedName],
+      ['./Button', 'Button']
+    );
+    assert.deepStrictEqual(
+      [byValue('design')?.componentName, byValue('design')?.importSource],
+      ['UIButton', '@acme/ui']
+    );
+    assert.strictEqual(byValue('design')?.importedName, 'Button');
+    assert.deepStrictEqual(
+      [byValue('mui')?.importSource, byValue('mui')?.importedName],
+      ['@mui/material', 'Button']
+    );
+  });
+
+  test('unqualified filter matches aliased imports by their exported name', async () => {
+    const usages = await analyzer.findPropUsage('variant', tmpDir, 'Button');
+    const values = usages
+      .filter((u) => u.value)
+      .map((u) => u.value)
+      .sort();
+    assert.deepStrictEqual(values, ['design', 'local', 'mui']);
+  });
+
+  test('qualified filter restricts matches to the import source', async () => {
+    const usages = await analyzer.findPropUsage('variant', tmpDir, '@acme/ui#Button');
+    assert.deepStrictEqual(
+      usages.map((u) => u.value),
+      ['design']
+    );
+
+    const missing = await analyzer.findComponentsWithoutProp(
+      '@mui/material#Button',
+      'size',
+      tmpDir
+    );
+    assert.strictEqual(missing.summary.totalInstances, 1);
+    assert.strictEqual(missing.missingPropUsages[0].importSource, '@mui/material');
+  });
+
+  test('qualified filter with a relative source matches the local definition', async () => {
+    const components = await analyzer.getComponentProps('./Button#Button', tmpDir);
+    assert.strictEqual(components.length, 1);
+    assert.ok(components[0].file.endsWith('Button.tsx'));
+
+    const thirdParty = await analyzer.getComponentProps('@acme/ui#Button', tmpDir);
+    assert.strictEqual(thirdParty.length, 0);
+  });
+
+  test('relative sources are resolved against the searched directory', async () => {
+    const components = await analyzer.getComponentProps('./widgets/components#Button', tmpDir);
+    assert.deepStrictEqual(
+      components.map((c) => path.relative(tmpDir, c.file)),
+      [path.join('widgets', 'components.tsx')]
+    );
+    assert.deepStrictEqual(await analyzer.getComponentProps('../components#Button', tmpDir), []);
+
+    const usages = await analyzer.findPropUsage('tone', tmpDir, './widgets/components#Button');
+    assert.deepStrictEqual(
+      usages.filter((u) => u.value).map((u) => u.value),
+      ['widget']
+    );
+  });
+});
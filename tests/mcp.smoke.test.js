@@ -110,7 +110,7 @@ describe('MCP Server Integration', () => {
 
       assert.ok(response.result, 'Should have result');
       assert.ok(response.result.tools, 'Should have tools array');
-      assert.strictEqual(response.result.tools.length, 4, 'Should have 4 tools');
+      assert.strictEqual(response.result.tools.length, 10, 'Should have 10 tools');
 
       const toolNames = response.result.tools.map((t) => t.name);
       assert.ok(toolNames.includes('analyze_jsx_props'), 'Should have analyze_jsx_props tool');
@@ -120,6 +120,12 @@ describe('MCP Server Integration', () => {
         toolNames.includes('find_components_without_prop'),
         'Should have find_components_without_prop tool'
       );
+      assert.ok(toolNames.includes('find_unused_props'), 'Should have find_unused_props tool');
+      assert.ok(toolNames.includes('find_unknown_props'), 'Should have find_unknown_props tool');
+      assert.ok(toolNames.includes('get_prop_value_stats'), 'Should have get_prop_value_stats tool');
+      assert.ok(toolNames.includes('rename_prop'), 'Should have rename_prop tool');
+      assert.ok(toolNames.includes('check_prop_rules'), 'Should have check_prop_rules tool');
+      assert.ok(toolNames.includes('audit_project'), 'Should have audit_project tool');
     } finally {
       client.close();
     }
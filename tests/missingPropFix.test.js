@@ -0,0 +1,103 @@
+import { test, describe, beforeEach, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('find_components_without_prop fixes', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-missing-fix');
+  const appFile = path.join(tmpDir, 'App.tsx');
+  const analyzer = new JSXPropAnalyzer();
+
+  const app = `import { Button } from './Button';
+
+export function App(props) {
+  return (
+    <form>
+      <Button>Save</Button>
+      <Button type="submit">Send</Button>
+      <Button
+        className="secondary"
+        disabled
+      >
+        Cancel
+      </Button>
+      <Button {...props} />
+    </form>
+  );
+}
+`;
+
+  beforeEach(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(appFile, app, 'utf8');
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('returns diffs inserting the missing prop without writing', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Button', 'type', tmpDir, {
+      fix: { defaultValue: "'button'" },
+    });
+
+    assert.strictEqual(result.summary.missingPropCount, 2);
+    assert.strictEqual(result.fix.applied, false);
+    assert.strictEqual(fs.readFileSync(appFile, 'utf8'), app, 'Diff-only mode must not write');
+    assert.strictEqual(result.fix.files.length, 1);
+    assert.strictEqual(result.fix.files[0].insertions, 2);
+    assert.strictEqual(
+      result.fix.files[0].diff,
+      `--- a/App.tsx
++++ b/App.tsx
+@@ -3,11 +3,12 @@
+ export function App(props) {
+   return (
+     <form>
+-      <Button>Save</Button>
++      <Button type="button">Save</Button>
+       <Button type="submit">Send</Button>
+       <Button
+         className="secondary"
+         disabled
++        type="button"
+       >
+         Cancel
+       </Button>
+`
+    );
+  });
+
+  test('writes the fixes when applied', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Button', 'type', tmpDir, {
+      fix: { defaultValue: 'DEFAULT_TYPE' },
+      apply: true,
+      canWrite: () => true,
+    });
+
+    assert.strictEqual(result.fix.applied, true);
+    const updated = fs.readFileSync(appFile, 'utf8');
+    assert.ok(updated.includes('<Button type={DEFAULT_TYPE}>Save</Button>'));
+    const after = await analyzer.findComponentsWithoutProp('Button', 'type', tmpDir);
+    assert.strictEqual(after.summary.missingPropCount, 0);
+  });
+
+  test('rejects fixes without a single required prop or with invalid expressions', async () => {
+    await assert.rejects(
+      analyzer.findComponentsWithoutProp('Button', undefined, tmpDir, {
+        fix: { defaultValue: "'button'" },
+      }),
+      /requiredProp/
+    );
+    await assert.rejects(
+      analyzer.findComponentsWithoutProp('Button', 'type', tmpDir, {
+        fix: { defaultValue: "'unterminated" },
+      }),
+      /Invalid expression/
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('definition resolution through tsconfig paths and barrels', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-resolution');
+  const analyzer = new JSXPropAnalyzer();
+  const write = (rel, content) => {
+    const file = path.join(tmpDir, rel);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content, 'utf8');
+  };
+
+  before(() => {
+    write(
+      'tsconfig.json',
+      `{
+  // JSONC comments are allowed
+  "compilerOptions": {
+    "baseUrl": ".",
+    "paths": { "@ui/*": ["src/ui/*"], },
+  },
+}
+`
+    );
+    write(
+      'src/ui/Button.tsx',
+      `export function Button({ size }: { size: string }) { return <button data-size={size} />; }
+`
+    );
+    write(
+      'src/ui/index.ts',
+      `export * from './Button';
+export { Card as Panel } from './Card';
+`
+    );
+    write(
+      'src/ui/Card.tsx',
+      `export const Card = ({ title }: { title: string }) => <section>{title}</section>;
+`
+    );
+    write(
+      'src/legacy/Button.tsx',
+      `export const Button = ({ label }: { label: string }) => <a>{label}</a>;
+`
+    );
+    write(
+      'src/App.tsx',
+      `import { Button } from '@ui/index';
+import { Panel } from './ui';
+import { Button as OldButton } from './legacy/Button';
+
+export const App = () => (
+  <>
+    <Button size="lg" />
+    <Panel title="Hello" />
+    <OldButton label="Back" />
+  </>
+);
+`
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('usages carry the file that declares the component', async () => {
+    const result = await analyzer.analyzeProps(path.join(tmpDir, 'src/App.tsx'));
+    const byProp = (n) => result.propUsages.find((u) => u.propName === n);
+
+    assert.strictEqual(byProp('size')?.definitionFile, path.join(tmpDir, 'src/ui/Button.tsx'));
+    assert.strictEqual(byProp('title')?.definitionFile, path.join(tmpDir, 'src/ui/Card.tsx'));
+    assert.strictEqual(byProp('label')?.definitionFile, path.join(tmpDir, 'src/legacy/Button.tsx'));
+  });
+
+  test('get_component_props keeps same-named components apart with their call sites', async () => {
+    const components = await analyzer.getComponentProps('Button', tmpDir);
+    assert.strictEqual(components.length, 2);
+
+    const ui = components.find((c) => c.file.endsWith(path.join('ui', 'Button.tsx')));
+    const legacy = components.find((c) => c.file.endsWith(path.join('legacy', 'Button.tsx')));
+    assert.deepStrictEqual(
+      ui.callSites.map((s) => s.props),
+      [['size']]
+    );
+    assert.deepStrictEqual(
+      legacy.callSites.map((s) => [s.componentName, s.props]),
+      [['OldButton', ['label']]]
+    );
+  });
+
+  test('renamed barrel re-exports link back to the original declaration', async () => {
+    const [card] = await analyzer.getComponentProps('Card', tmpDir);
+    assert.strictEqual(card.callSites.length, 1);
+    assert.strictEqual(card.callSites[0].componentName, 'Panel');
+  });
+});
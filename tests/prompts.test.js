@@ -0,0 +1,170 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { spawn } from 'node:child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const serverPath = path.resolve(__dirname, '../dist/index.js');
+
+describe('MCP prompts', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-prompts');
+  let server;
+  const pending = new Map();
+  let nextId = 1;
+
+  const request = (method, params = {}) =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`Request ${method} timed out`));
+      }, 20000);
+      pending.set(id, (response) => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+      server.stdin.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+
+  const getPrompt = async (name, args) => {
+    const response = await request('prompts/get', { name, arguments: args });
+    if (response.error) return response.error;
+    const [message] = response.result.messages;
+    assert.strictEqual(message.role, 'user');
+    return message.content.text;
+  };
+
+  before(async () => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.tsx'),
+      `interface ButtonProps {
+  /** Visual style */
+  variant?: 'primary' | 'secondary';
+  legacy?: boolean;
+}
+
+export const Button = ({ variant = 'primary', legacy }: ButtonProps) => (
+  <button className={legacy ? 'old' : variant} />
+);
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `import { Button } from './Button';
+
+export const App = (props) => (
+  <div>
+    <img src="logo.png" />
+    <img src="hero.png" alt="image" />
+    <img {...props} />
+    <Button legacy />
+    <Button variant="secondary" legacy={false} />
+  </div>
+);
+`,
+      'utf8'
+    );
+
+    server = spawn(
+      'node',
+      [serverPath, '--allowed-roots', tmpDir, '--workers', '0', '--no-cache'],
+      { cwd: tmpDir, stdio: ['pipe', 'pipe', 'pipe'] }
+    );
+    let buffer = '';
+    server.stdout.on('data', (data) => {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const message = JSON.parse(line);
+        pending.get(message.id)?.(message);
+        pending.delete(message.id);
+      }
+    });
+
+    await request('initialize', {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'prompts-test', version: '1.0.0' },
+    });
+    server.stdin.write(
+      JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n'
+    );
+  });
+
+  after(() => {
+    if (server.exitCode === null) process.kill(server.pid);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('lists the prompts with their arguments', async () => {
+    const { result } = await request('prompts/list');
+
+    assert.deepStrictEqual(
+      result.prompts.map((prompt) => [
+        prompt.name,
+        prompt.arguments.map((arg) => `${arg.name}${arg.required ? '' : '?'}`),
+      ]),
+      [
+        ['audit-image-accessibility', ['component?', 'directory?']],
+        ['document-component', ['component', 'directory?']],
+        ['plan-prop-removal', ['component', 'prop', 'directory?']],
+      ]
+    );
+  });
+
+  test('audits images for alt text', async () => {
+    const text = await getPrompt('audit-image-accessibility', {});
+
+    assert.match(text, /^Audit the accessibility props of <img> elements under /);
+    assert.ok(text.includes('App.tsx:5:5 img missing alt\n'));
+    assert.ok(text.includes('App.tsx:7:5 img missing alt unless passed by {...props}'));
+    assert.ok(text.includes('1x image (literal, 100.0%)'));
+  });
+
+  test("assembles a component's declaration and usages for documentation", async () => {
+    const text = await getPrompt('document-component', { component: 'Button' });
+
+    assert.match(text, /^Write API documentation for the Button component/);
+    const json = JSON.parse(text.match(/```json\n([\s\S]*?)\n```/)[1]);
+    assert.deepStrictEqual(
+      json[0].props.map((prop) => prop.name),
+      ['variant', 'legacy']
+    );
+    assert.deepStrictEqual(json[0].usage.props, { legacy: 2, variant: 1 });
+    assert.ok(text.includes('App.tsx:9:33 Button legacy=false'));
+  });
+
+  test('plans the removal of a prop', async () => {
+    const text = await getPrompt('plan-prop-removal', { component: 'Button', prop: 'legacy' });
+
+    assert.match(text, /^Plan the removal of the `legacy` prop from Button\./);
+    const [definition] = JSON.parse(text.match(/```json\n([\s\S]*?)\n```/)[1]);
+    assert.strictEqual(definition.definition.type, 'boolean');
+    assert.strictEqual(definition.passing, 2);
+    assert.ok(text.includes('App.tsx:8:13 Button legacy'));
+    assert.ok(text.includes('1x true (literal, 50.0%)'));
+  });
+
+  test('refuses directories outside the allowed roots', async () => {
+    const error = await getPrompt('document-component', {
+      component: 'Button',
+      directory: __dirname,
+    });
+
+    assert.match(error.message, /outside allowed roots/);
+  });
+
+  test('completes component arguments', async () => {
+    const { result } = await request('completion/complete', {
+      ref: { type: 'ref/prompt', name: 'plan-prop-removal' },
+      argument: { name: 'component', value: 'B' },
+    });
+
+    assert.deepStrictEqual(result.completion.values, ['Button']);
+  });
+});
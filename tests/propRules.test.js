@@ -0,0 +1,140 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('conditional prop rules', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-rules');
+  const analyzer = new JSXPropAnalyzer();
+
+  const rules = [
+    { component: 'Button', requiredProp: 'type', when: { inside: 'form' } },
+    {
+      component: 'Link',
+      requiredProp: 'rel',
+      when: { propValues: { target: '_blank' } },
+      message: 'External links need rel="noopener noreferrer"',
+    },
+    {
+      id: 'icon-label',
+      component: 'Icon',
+      requiredProp: 'aria-label',
+      unless: { hasProps: ['aria-hidden'] },
+    },
+  ];
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Page.tsx'),
+      `import { Button, Icon, Link } from './ui';
+
+const hidden = { 'aria-hidden': true };
+
+export function Page({ target, ...rest }) {
+  return (
+    <main>
+      <Button>Outside</Button>
+      <form>
+        <fieldset>
+          <Button>Nested</Button>
+          <Button type="submit">Submit</Button>
+        </fieldset>
+      </form>
+      <Link href="/a" target="_blank" />
+      <Link href="/b" target={'_blank'} rel="noopener" />
+      <Link href="/c" target={target} />
+      <Link href="/d" />
+      <Icon name="close" />
+      <Icon name="star" aria-hidden />
+      <Icon name="info" {...hidden} />
+      <Icon name="menu" {...rest} />
+    </main>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reports usages where a rule applies and the prop is missing', async () => {
+    const result = await analyzer.checkPropRules(rules, tmpDir);
+
+    assert.deepStrictEqual(
+      result.violations.map((v) => [v.ruleId, v.line]),
+      [
+        ['Button:type', 11],
+        ['Link:rel', 15],
+        ['icon-label', 19],
+      ]
+    );
+    assert.strictEqual(result.violations[1].message, rules[1].message);
+    assert.deepStrictEqual(result.violations[2].existingProps, ['name']);
+    assert.deepStrictEqual(
+      result.uncertainViolations.map((v) => [v.ruleId, v.line, v.unresolvedSpreads]),
+      [['icon-label', 22, ['rest']]]
+    );
+    assert.deepStrictEqual(result.summary, {
+      rules: [
+        { id: 'Button:type', instances: 2, violations: 1, uncertain: 0 },
+        { id: 'Link:rel', instances: 2, violations: 1, uncertain: 0 },
+        { id: 'icon-label', instances: 2, violations: 1, uncertain: 1 },
+      ],
+      totalViolations: 3,
+      uncertainCount: 1,
+    });
+  });
+
+  test('applies the spread policy to the required prop', async () => {
+    const result = await analyzer.checkPropRules([rules[2]], tmpDir, {
+      spreadPolicy: 'assumeMissing',
+    });
+
+    assert.deepStrictEqual(
+      result.violations.map((v) => v.line),
+      [19, 22]
+    );
+    assert.strictEqual(result.uncertainViolations.length, 0);
+  });
+
+  test('combines condition parts and matches bare attributes as true', async () => {
+    const result = await analyzer.checkPropRules(
+      [
+        {
+          component: 'Icon',
+          requiredProp: 'title',
+          when: { hasProps: ['name'], propValues: { 'aria-hidden': true } },
+        },
+        {
+          component: 'Button',
+          requiredProp: 'form',
+          when: { inside: 'fieldset', hasProps: ['type'] },
+        },
+      ],
+      tmpDir
+    );
+
+    assert.deepStrictEqual(
+      result.violations.map((v) => [v.ruleId, v.line]),
+      [
+        ['Button:form', 12],
+        ['Icon:title', 20],
+      ]
+    );
+  });
+
+  test('rejects invalid prop names', async () => {
+    await assert.rejects(
+      analyzer.checkPropRules([{ component: 'Button', requiredProp: 'not valid' }], tmpDir),
+      /Invalid prop name/
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const examplesDir = path.resolve(__dirname, '../examples/sample-components');
+
+describe('prop type extraction', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-prop-types');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'base.ts'),
+      `export interface BaseProps {
+  /** Test id used by e2e suites */
+  testId?: string;
+  readonly id: string;
+}
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'Tag.tsx'),
+      `import React, { HTMLAttributes } from 'react';
+import type { BaseProps } from './base';
+
+interface ToneProps extends BaseProps {
+  /**
+   * Visual tone of the tag.
+   * @default 'neutral'
+   */
+  tone?: 'neutral' | 'danger';
+  onDismiss(reason: string): void;
+}
+
+type TagProps = ToneProps & HTMLAttributes<HTMLSpanElement> & { label: string };
+
+export function Tag(props: TagProps) {
+  return <span>{props.label}</span>;
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('expands intersections, extends clauses and imported interfaces', async () => {
+    const [tag] = await analyzer.getComponentProps('Tag', tmpDir);
+    const byName = Object.fromEntries(tag.propDefinitions.map((p) => [p.name, p]));
+
+    assert.deepStrictEqual(Object.keys(byName).sort(), [
+      'id',
+      'label',
+      'onDismiss',
+      'testId',
+      'tone',
+    ]);
+    assert.deepStrictEqual(byName.tone, {
+      name: 'tone',
+      type: "'neutral' | 'danger'",
+      optional: true,
+      readonly: false,
+      description: 'Visual tone of the tag.',
+      declaredIn: 'ToneProps',
+      allowedValues: ['neutral', 'danger'],
+    });
+    assert.strictEqual(byName.onDismiss.type, '(reason: string) => void');
+    assert.strictEqual(byName.id.readonly, true);
+    assert.strictEqual(byName.id.declaredIn, 'BaseProps');
+    assert.strictEqual(byName.testId.description, 'Test id used by e2e suites');
+    assert.strictEqual(byName.label.declaredIn, 'TagProps');
+    assert.deepStrictEqual(tag.unresolvedPropTypes, ['HTMLAttributes<HTMLSpanElement>']);
+  });
+
+  test('reports members of the example ButtonProps interface', async () => {
+    const [button] = await analyzer.getComponentProps('Button', examplesDir);
+    const variant = button.propDefinitions.find((p) => p.name === 'variant');
+    assert.strictEqual(variant.type, "'primary' | 'secondary'");
+    assert.strictEqual(variant.optional, true);
+  });
+
+  test('omits prop definitions when includeTypes is false', async () => {
+    const result = await analyzer.analyzeProps(tmpDir, 'Tag', undefined, false);
+    assert.strictEqual(result.components[0].propDefinitions, undefined);
+  });
+});
+
+describe('explicit props type binding', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-props-binding');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Widgets.tsx'),
+      `import React, { forwardRef, ComponentProps } from 'react';
+
+interface CardConfig { title: string }
+interface PanelOptions { collapsed?: boolean }
+interface InputOptions { label: string }
+interface ShadowProps { ignored: boolean }
+
+export function Card(p: CardConfig) {
+  return <div>{p.title}</div>;
+}
+
+export const Panel: React.FC<PanelOptions> = ({ collapsed }) => <div hidden={collapsed} />;
+
+export const Input = forwardRef<HTMLInputElement, InputOptions>((props, ref) => (
+  <input ref={ref} aria-label={props.label} />
+));
+
+export const Shadow = (props: ComponentProps<typeof Card>) => <Card {...props} />;
+
+export const Badge = ({ count }: { count: number }) => <b>{count}</b>;
+
+export const Legacy = ({ legacy }) => <i>{legacy}</i>;
+interface LegacyProps { legacy: string }
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const component = async (name) => {
+    const result = await analyzer.analyzeProps(tmpDir, name);
+    return result.components.find((c) => c.componentName === name);
+  };
+  const memberNames = (c) => c.propDefinitions.map((p) => p.name);
+
+  test('binds parameter annotations regardless of naming', async () => {
+    const card = await component('Card');
+    assert.strictEqual(card.propsInterface, 'CardConfig');
+    assert.deepStrictEqual(memberNames(card), ['title']);
+  });
+
+  test('binds React.FC and forwardRef generics', async () => {
+    const panel = await component('Panel');
+    assert.strictEqual(panel.propsInterface, 'PanelOptions');
+    assert.deepStrictEqual(memberNames(panel), ['collapsed']);
+
+    const input = await component('Input');
+    assert.strictEqual(input.propsInterface, 'InputOptions');
+    assert.deepStrictEqual(memberNames(input), ['label']);
+  });
+
+  test('follows ComponentProps<typeof X> to the referenced component', async () => {
+    const shadow = await component('Shadow');
+    assert.strictEqual(shadow.propsInterface, 'ComponentProps<typeof Card>');
+    assert.deepStrictEqual(memberNames(shadow), ['title']);
+  });
+
+  test('expands inline literals and falls back to the naming convention', async () => {
+    const badge = await component('Badge');
+    assert.strictEqual(badge.propsInterface, undefined);
+    assert.deepStrictEqual(
+      badge.propDefinitions.map((p) => [p.name, p.type, p.optional, p.declaredIn]),
+      [['count', 'number', false, 'Badge']]
+    );
+
+    const legacy = await component('Legacy');
+    assert.strictEqual(legacy.propsInterface, 'LegacyProps');
+    assert.deepStrictEqual(memberNames(legacy), ['legacy']);
+  });
+});
@@ -0,0 +1,122 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('PropTypes schema', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-prop-types-schema');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Select.jsx'),
+      `import React from 'react';
+import PropTypes from 'prop-types';
+
+export function Select({ options, size, onChange, placeholder = 'Pick one' }) {
+  return <select data-size={size} onChange={onChange}>{options}</select>;
+}
+
+Select.propTypes = {
+  /** Choices rendered as options */
+  options: PropTypes.arrayOf(PropTypes.shape({ label: PropTypes.string.isRequired, value: PropTypes.any })).isRequired,
+  size: PropTypes.oneOf(['sm', 'md', 'lg']).isRequired,
+  onChange: PropTypes.func,
+  placeholder: PropTypes.string.isRequired,
+  value: PropTypes.oneOfType([PropTypes.string, PropTypes.number]),
+  since: PropTypes.instanceOf(Date),
+  ...Base.propTypes,
+};
+
+export class Toggle extends React.Component {
+  static propTypes = {
+    on: PropTypes.bool.isRequired,
+  };
+
+  render() {
+    return <button aria-pressed={this.props.on} />;
+  }
+}
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'Form.jsx'),
+      `import React from 'react';
+import { Select, Toggle } from './Select';
+
+export const Form = (props) => (
+  <form>
+    <Select options={[]} size="sm" />
+    <Select options={[]} />
+    <Select {...props} />
+    <Toggle />
+    <Toggle on />
+  </form>
+);
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reads propTypes assignments into prop definitions', async () => {
+    const [select] = await analyzer.getComponentProps('Select', tmpDir);
+    const byName = Object.fromEntries(select.propDefinitions.map((p) => [p.name, p]));
+
+    assert.deepStrictEqual(byName.size, {
+      name: 'size',
+      type: "'sm' | 'md' | 'lg'",
+      optional: false,
+      readonly: false,
+      description: undefined,
+      declaredIn: 'Select.propTypes',
+      allowedValues: ['sm', 'md', 'lg'],
+    });
+    assert.strictEqual(byName.options.type, '{ label: string; value?: any }[]');
+    assert.strictEqual(byName.options.description, 'Choices rendered as options');
+    assert.strictEqual(byName.onChange.type, 'Function');
+    assert.strictEqual(byName.onChange.optional, true);
+    assert.strictEqual(byName.value.type, 'string | number');
+    assert.strictEqual(byName.since.type, 'Date');
+    assert.strictEqual(byName.placeholder.defaultValue, 'Pick one');
+    assert.deepStrictEqual(select.unresolvedPropTypes, ['...Base.propTypes']);
+  });
+
+  test('reads static propTypes on class components', async () => {
+    const [toggle] = await analyzer.getComponentProps('Toggle', tmpDir);
+    assert.deepStrictEqual(
+      toggle.propDefinitions.map((p) => [p.name, p.type, p.optional]),
+      [['on', 'boolean', false]]
+    );
+  });
+
+  test('checks usages against isRequired props when no prop is given', async () => {
+    const select = await analyzer.findComponentsWithoutProp('Select', undefined, tmpDir);
+    assert.strictEqual(select.summary.totalInstances, 3);
+    assert.deepStrictEqual(
+      select.missingPropUsages.map((u) => [u.line, u.missingProps]),
+      [[7, ['size']]]
+    );
+
+    const toggle = await analyzer.findComponentsWithoutProp('Toggle', undefined, tmpDir);
+    assert.deepStrictEqual(
+      toggle.missingPropUsages.map((u) => [u.line, u.missingProps]),
+      [[9, ['on']]]
+    );
+  });
+
+  test('still checks an explicit requiredProp', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Select', 'onChange', tmpDir);
+    assert.strictEqual(result.missingPropUsages.length, 2);
+    assert.deepStrictEqual(result.missingPropUsages[0].missingProps, ['onChange']);
+  });
+});
@@ -0,0 +1,83 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('prop value statistics', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-value-stats');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.tsx'),
+      `export function Button({ variant = 'primary', disabled }) {
+  return <button className={variant} disabled={disabled} />;
+}
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `import { Button } from './Button';
+
+export function App({ primary, isOpen }) {
+  return (
+    <div>
+      <Button variant="primary" />
+      <Button variant={'primary'} disabled />
+      <Button variant={\`primary\`} />
+      <Button variant={primary} disabled={false} />
+      <Button variant={isOpen ? 'primary' : 'ghost'} />
+      <Button variant="ghost" />
+    </div>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('groups usages by value and kind, most frequent first', async () => {
+    const result = await analyzer.getPropValueStats('variant', tmpDir, 'Button');
+
+    assert.deepStrictEqual(
+      result.values.map((v) => [v.value, v.valueKind, v.count]),
+      [
+        ['primary', 'literal', 3],
+        ['primary', 'dynamic', 1],
+        ['…', 'dynamic', 1],
+        ['ghost', 'literal', 1],
+      ]
+    );
+    assert.strictEqual(result.values[0].percentage, 50);
+    assert.strictEqual(result.values[0].examples.length, 3);
+    assert.strictEqual(path.basename(result.values[0].examples[0].file), 'App.tsx');
+    assert.deepStrictEqual(result.summary, {
+      totalUsages: 6,
+      distinctValues: 4,
+      literalCount: 4,
+      dynamicCount: 2,
+    });
+  });
+
+  test('counts boolean shorthand as the literal true', async () => {
+    const result = await analyzer.getPropValueStats('disabled', tmpDir, 'Button');
+
+    assert.deepStrictEqual(
+      result.values.map((v) => [v.value, v.valueKind, v.count]),
+      [
+        ['true', 'literal', 1],
+        ['false', 'literal', 1],
+      ]
+    );
+  });
+});
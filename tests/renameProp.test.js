@@ -0,0 +1,213 @@
+import { test, describe, beforeEach, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('rename prop codemod', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-rename');
+  const buttonFile = path.join(tmpDir, 'Button.tsx');
+  const appFile = path.join(tmpDir, 'App.tsx');
+  const analyzer = new JSXPropAnalyzer();
+
+  const app = `import React from 'react';
+import { Button } from './Button';
+import { Button as UIButton } from '@acme/ui';
+
+export function App() {
+  return (
+    <div>
+      <Button label="Save"   type="primary" />
+      <Button
+        label="Cancel"
+        type={'ghost'} // keep this comment
+      />
+      <Button type="ghost" variant="link" />
+      <UIButton type="primary" />
+    </div>
+  );
+}
+`;
+
+  beforeEach(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      buttonFile,
+      `import React from 'react';
+
+interface BaseProps {
+  type?: 'primary' | 'ghost';
+}
+
+export interface ButtonProps extends BaseProps {
+  label: string;
+}
+
+export function Button({ label, type = 'primary' }: ButtonProps) {
+  return <button className={type}>{label}</button>;
+}
+`,
+      'utf8'
+    );
+    fs.writeFileSync(appFile, app, 'utf8');
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('returns a diff of call site renames without writing', async () => {
+    const result = await analyzer.renameProp('Button', 'type', 'variant', tmpDir);
+
+    assert.strictEqual(result.written, false);
+    assert.strictEqual(fs.readFileSync(appFile, 'utf8'), app, 'Dry run must not write');
+    assert.ok(result.diff.startsWith('--- a/App.tsx\n+++ b/App.tsx\n@@ -5,13 +5,13 @@\n'));
+    assert.ok(result.diff.includes('\n-      <Button label="Save"   type="primary" />'));
+    assert.ok(result.diff.includes('\n+      <Button label="Save"   variant="primary" />'));
+    assert.ok(result.diff.includes("\n+        variant={'ghost'} // keep this comment"));
+    assert.strictEqual(result.summary.callSitesRenamed, 3, 'Unqualified name matches UIButton');
+    assert.deepStrictEqual(
+      result.conflicts.map((c) => [c.line, c.reason]),
+      [[13, "already passes 'variant'"]]
+    );
+  });
+
+  test('leaves elements that only pass the new name alone', async () => {
+    const toolbarFile = path.join(tmpDir, 'Toolbar.tsx');
+    fs.writeFileSync(
+      toolbarFile,
+      `import { Button } from './Button';
+export const Toolbar = () => <Button label="More" variant="link" />;
+`,
+      'utf8'
+    );
+    try {
+      const result = await analyzer.renameProp('Button', 'type', 'variant', tmpDir);
+      assert.deepStrictEqual(
+        result.conflicts.map((c) => path.basename(c.file)),
+        ['App.tsx']
+      );
+      assert.ok(!result.diff.includes('Toolbar.tsx'));
+    } finally {
+      fs.rmSync(toolbarFile, { force: true });
+    }
+  });
+
+  test('limits renames to an import source', async () => {
+    const result = await analyzer.renameProp('Button', 'type', 'variant', tmpDir, {
+      importSource: '@acme/ui',
+    });
+
+    assert.strictEqual(result.summary.callSitesRenamed, 1);
+    assert.ok(result.diff.includes('+      <UIButton variant="primary" />'));
+  });
+
+  test('renames the declaration and writes the files', async () => {
+    const result = await analyzer.renameProp('./Button#Button', 'type', 'variant', tmpDir, {
+      updateDefinition: true,
+      write: true,
+      canWrite: () => true,
+    });
+
+    assert.strictEqual(result.written, true);
+    assert.deepStrictEqual(result.warnings, []);
+    const button = fs.readFileSync(buttonFile, 'utf8');
+    assert.ok(button.includes("  variant?: 'primary' | 'ghost';"), 'Renames the inherited member');
+    assert.ok(button.includes("{ label, variant: type = 'primary' }: ButtonProps"));
+    assert.ok(button.includes('className={type}'), 'Keeps the local name');
+    const updatedApp = fs.readFileSync(appFile, 'utf8');
+    assert.ok(updatedApp.includes('<Button label="Save"   variant="primary" />'));
+    assert.ok(updatedApp.includes('<UIButton type="primary" />'), 'Other definitions untouched');
+  });
+
+  test('renames call sites of a path-qualified component by the file they import', async () => {
+    const pagesDir = path.join(tmpDir, 'pages');
+    fs.mkdirSync(pagesDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(pagesDir, 'Home.tsx'),
+      `import { Button as Action } from '../Button';
+
+export const Home = () => <Action label="Go" type="ghost" />;
+`,
+      'utf8'
+    );
+
+    const result = await analyzer.renameProp('./Button#Button', 'type', 'variant', tmpDir, {
+      updateDefinition: true,
+    });
+
+    assert.strictEqual(result.summary.callSitesRenamed, 3);
+    assert.ok(result.summary.definitionEdits > 0);
+    assert.ok(
+      result.diff.includes('+export const Home = () => <Action label="Go" variant="ghost" />;')
+    );
+    assert.ok(
+      result.diff.includes('\n       <UIButton type="primary" />'),
+      'Other definitions untouched'
+    );
+    fs.rmSync(pagesDir, { recursive: true });
+  });
+
+  test('leaves props types shared with other components unchanged', async () => {
+    const formFile = path.join(tmpDir, 'Form.tsx');
+    fs.writeFileSync(
+      formFile,
+      `interface FieldProps {
+  size?: string;
+}
+
+interface InputProps extends FieldProps {
+  value: string;
+}
+
+interface SelectProps extends FieldProps {
+  options: string[];
+}
+
+export function Input({ size, value }: InputProps) {
+  return <input className={size} value={value} />;
+}
+
+export function Select({ size, options }: SelectProps) {
+  return <select className={size}>{options}</select>;
+}
+
+export const Form = () => <Input size="lg" value="" />;
+`,
+      'utf8'
+    );
+    try {
+      const result = await analyzer.renameProp('Input', 'size', 'scale', tmpDir, {
+        updateDefinition: true,
+      });
+
+      assert.deepStrictEqual(result.warnings, [
+        `'size' of Input (${formFile}) is declared in FieldProps, which other components may use; it was not changed there`,
+      ]);
+      assert.ok(result.diff.includes('+export function Input({ scale: size, value }: InputProps)'));
+      assert.ok(result.diff.includes('+export const Form = () => <Input scale="lg" value="" />;'));
+      assert.ok(!result.diff.includes('+  scale?: string;'), 'Shared type untouched');
+    } finally {
+      fs.rmSync(formFile, { force: true });
+    }
+  });
+
+  test('writes nothing when a changed file is refused', async () => {
+    await assert.rejects(
+      analyzer.renameProp('Button', 'type', 'variant', tmpDir, {
+        updateDefinition: true,
+        write: true,
+        canWrite: (file) => file !== buttonFile,
+      }),
+      /outside the allowed roots/
+    );
+    assert.strictEqual(fs.readFileSync(appFile, 'utf8'), app);
+  });
+
+  test('rejects invalid prop names', async () => {
+    await assert.rejects(analyzer.renameProp('Button', 'type', 'bad name', tmpDir), /Invalid prop/);
+  });
+});
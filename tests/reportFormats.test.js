@@ -0,0 +1,118 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+import { auditReport, formatReport, missingPropReport } from '../dist/utils/report-formats.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('report formats', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-reports');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(path.join(tmpDir, 'src'), { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'src', 'Form.tsx'),
+      `import { Button } from './Button';
+
+export function Form(props) {
+  return (
+    <form>
+      <Button>Save</Button>
+      <Button {...props}>Reset</Button>
+      <Button type="submit" size="huge">Send</Button>
+    </form>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('renders missing props as SARIF results with relative locations', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Button', 'type', tmpDir);
+    const sarif = JSON.parse(formatReport(missingPropReport(result, tmpDir), 'sarif'));
+
+    assert.strictEqual(sarif.version, '2.1.0');
+    const [run] = sarif.runs;
+    assert.deepStrictEqual(
+      run.tool.driver.rules.map((rule) => rule.id),
+      ['missing-prop']
+    );
+    assert.deepStrictEqual(
+      run.results.map((r) => [
+        r.level,
+        r.message.text,
+        r.locations[0].physicalLocation.artifactLocation,
+        r.locations[0].physicalLocation.region,
+      ]),
+      [
+        [
+          'error',
+          "Button is missing 'type'",
+          { uri: 'src/Form.tsx', uriBaseId: 'SRCROOT' },
+          { startLine: 6, startColumn: 7 },
+        ],
+        [
+          'note',
+          "Button is missing 'type' unless passed by {...props}",
+          { uri: 'src/Form.tsx', uriBaseId: 'SRCROOT' },
+          { startLine: 7, startColumn: 7 },
+        ],
+      ]
+    );
+  });
+
+  test('renders audit findings as JUnit suites per rule', async () => {
+    const result = await analyzer.auditProject(
+      [
+        {
+          id: 'button-size',
+          type: 'allowed-values',
+          component: 'Button',
+          prop: 'size',
+          values: ['sm'],
+        },
+        { id: 'no-style', type: 'forbidden-prop', component: 'Button', prop: 'style' },
+      ],
+      tmpDir
+    );
+    const junit = formatReport(auditReport(result, tmpDir), 'junit');
+
+    assert.match(junit, /<testsuites name="jsx-prop-lookup-mcp-server" tests="2" failures="1">/);
+    assert.match(
+      junit,
+      /<testsuite name="button-size" tests="1" failures="1" skipped="0">\n {4}<testcase name="src\/Form.tsx:8:7" classname="button-size"><failure message="Button passes &quot;huge&quot; for &apos;size&apos;; allowed: &quot;sm&quot;" type="error">/
+    );
+    assert.match(junit, /<testcase name="no-style" classname="no-style"\/>/);
+  });
+
+  test('renders GitHub annotations with escaped properties and messages', () => {
+    const report = {
+      root: tmpDir,
+      rules: [{ id: 'a,b' }],
+      findings: [
+        {
+          ruleId: 'a,b',
+          level: 'note',
+          message: '100% done\nnext',
+          file: path.join(tmpDir, 'src', 'Form.tsx'),
+          line: 3,
+          column: 0,
+        },
+      ],
+    };
+
+    assert.strictEqual(
+      formatReport(report, 'github-annotations'),
+      '::notice file=src/Form.tsx,line=3,col=1,title=a%2Cb::100%25 done%0Anext\n'
+    );
+  });
+});
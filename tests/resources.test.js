@@ -0,0 +1,179 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import { spawn } from 'node:child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const serverPath = path.resolve(__dirname, '../dist/index.js');
+
+describe('MCP resources', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-resources');
+  let server;
+  const pending = new Map();
+  let nextId = 1;
+
+  const request = (method, params = {}) =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`Request ${method} timed out`));
+      }, 20000);
+      pending.set(id, (response) => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+      server.stdin.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+
+  const read = async (uri) => {
+    const response = await request('resources/read', { uri });
+    return response.error ?? JSON.parse(response.result.contents[0].text);
+  };
+
+  before(async () => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.tsx'),
+      `interface ButtonProps {
+  /** Visual style */
+  variant?: 'primary' | 'secondary';
+  size: 'sm' | 'lg';
+}
+
+export const Button = ({ variant = 'primary', size }: ButtonProps) => (
+  <button className={variant + size} />
+);
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `import { Button } from './Button';
+
+export const App = () => (
+  <div>
+    <Button size="sm" />
+    <Button size="lg" variant="secondary">Go</Button>
+  </div>
+);
+`,
+      'utf8'
+    );
+
+    server = spawn(
+      'node',
+      [serverPath, '--allowed-roots', tmpDir, '--workers', '0', '--no-cache'],
+      { cwd: tmpDir, stdio: ['pipe', 'pipe', 'pipe'] }
+    );
+    let buffer = '';
+    server.stdout.on('data', (data) => {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const message = JSON.parse(line);
+        pending.get(message.id)?.(message);
+        pending.delete(message.id);
+      }
+    });
+
+    await request('initialize', {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'resources-test', version: '1.0.0' },
+    });
+    server.stdin.write(
+      JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n'
+    );
+  });
+
+  after(() => {
+    if (server.exitCode === null) process.kill(server.pid);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('lists the index and a resource per component', async () => {
+    const { result } = await request('resources/list');
+
+    assert.deepStrictEqual(result.resources.map((r) => r.uri).sort(), [
+      'jsx-component://App',
+      'jsx-component://Button',
+      'jsx-components://index',
+    ]);
+  });
+
+  test('lists the component and file templates', async () => {
+    const { result } = await request('resources/templates/list');
+
+    assert.deepStrictEqual(result.resourceTemplates.map((t) => t.uriTemplate).sort(), [
+      'jsx-component://{name}',
+      'jsx-file://{+file}',
+    ]);
+  });
+
+  test('reads the component index', async () => {
+    const catalog = await read('jsx-components://index');
+
+    const button = catalog.find((c) => c.componentName === 'Button');
+    assert.strictEqual(button.file, path.join(tmpDir, 'Button.tsx'));
+    assert.deepStrictEqual(button.props.sort(), ['size', 'variant']);
+  });
+
+  test("reads a component's props schema and usage counts", async () => {
+    const [button] = await read('jsx-component://Button');
+
+    assert.strictEqual(button.file, path.join(tmpDir, 'Button.tsx'));
+    assert.strictEqual(button.propsInterface, 'ButtonProps');
+    assert.deepStrictEqual(
+      button.props.map((p) => [p.name, p.type, p.optional, p.defaultValue]),
+      [
+        ['variant', "'primary' | 'secondary'", true, 'primary'],
+        ['size', "'sm' | 'lg'", false, undefined],
+      ]
+    );
+    assert.deepStrictEqual(button.usage, {
+      callSites: 2,
+      withChildren: 1,
+      props: { size: 2, variant: 1 },
+    });
+  });
+
+  test('reports unknown components', async () => {
+    const error = await read('jsx-component://Missing');
+
+    assert.match(error.message, /Component not found: Missing/);
+  });
+
+  test('reads the analysis of a file', async () => {
+    const file = path.join(tmpDir, 'App.tsx');
+    const result = await read(`jsx-file://${file}`);
+
+    assert.strictEqual(result.summary.totalFiles, 1);
+    assert.deepStrictEqual(
+      result.propUsages.map((u) => [u.componentName, u.propName, u.value]),
+      [
+        ['Button', 'size', 'sm'],
+        ['Button', 'size', 'lg'],
+        ['Button', 'variant', 'secondary'],
+      ]
+    );
+  });
+
+  test('keeps file resources within the allowed roots', async () => {
+    const error = await read(`jsx-file://${path.join(__dirname, 'cli.test.js')}`);
+
+    assert.match(error.message, /outside allowed roots/);
+  });
+
+  test('completes component names', async () => {
+    const { result } = await request('completion/complete', {
+      ref: { type: 'ref/resource', uri: 'jsx-component://{name}' },
+      argument: { name: 'name', value: 'Bu' },
+    });
+
+    assert.deepStrictEqual(result.completion.values, ['Button']);
+  });
+});
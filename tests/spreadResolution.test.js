@@ -0,0 +1,87 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('spread resolution for required props', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-spreads');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Gallery.tsx'),
+      `import { Image } from './Image';
+
+const decorative = { alt: '', role: 'presentation' };
+const sized = { ...decorative, width: 100 };
+const hero = { src: '/hero.png' };
+const patched = { src: '/patched.png' };
+patched.alt = 'Patched';
+
+export function Gallery(rest) {
+  return (
+    <div>
+      <Image src="/a.png" {...{ alt: 'A' }} />
+      <Image src="/b.png" {...sized} />
+      <Image {...hero} />
+      <Image {...patched} />
+      <Image src="/c.png" {...rest} />
+    </div>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('resolves object literal and const spreads, reporting the rest as uncertain', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Image', 'alt', tmpDir);
+
+    assert.strictEqual(result.summary.totalInstances, 5);
+    assert.deepStrictEqual(
+      result.missingPropUsages.map((u) => [u.line, u.existingProps]),
+      [[14, ['src']]]
+    );
+    assert.deepStrictEqual(
+      result.uncertainUsages.map((u) => [u.line, u.unresolvedSpreads]),
+      [
+        [15, ['patched']],
+        [16, ['rest']],
+      ]
+    );
+    assert.strictEqual(result.summary.uncertainCount, 2);
+  });
+
+  test('applies the spread policy to unresolvable spreads', async () => {
+    const present = await analyzer.findComponentsWithoutProp('Image', 'alt', tmpDir, {
+      spreadPolicy: 'assumePresent',
+    });
+    assert.deepStrictEqual(
+      present.missingPropUsages.map((u) => u.line),
+      [14]
+    );
+    assert.strictEqual(present.uncertainUsages.length, 0);
+
+    const missing = await analyzer.findComponentsWithoutProp('Image', 'alt', tmpDir, {
+      spreadPolicy: 'assumeMissing',
+      fix: { defaultValue: "''" },
+    });
+    assert.deepStrictEqual(
+      missing.missingPropUsages.map((u) => u.line),
+      [14, 15, 16]
+    );
+    assert.ok(
+      missing.fix.files[0].diff.includes('+      <Image src="/c.png" alt="" {...rest} />'),
+      'Inserts before the spread so the spread still wins'
+    );
+  });
+});
@@ -0,0 +1,222 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+import {
+  analysisPager,
+  auditPager,
+  decodeCursor,
+  missingPropPager,
+  propUsagesPager,
+  renamePager,
+  renderPage,
+  renderResult,
+} from '../dist/utils/tool-response.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('tool responses', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-responses');
+  const analyzer = new JSXPropAnalyzer();
+
+  const cursorOf = (note) => note.match(/cursor "([^"]+)"/)[1];
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    const buttons = Array.from(
+      { length: 20 },
+      (_, i) => `      <Button size="s${i}"${i % 4 === 0 ? ' {...props}' : ''}>B</Button>`
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `export function App(props) {
+  return (
+    <div>
+${buttons.join('\n')}
+    </div>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const render = (pager, format) => (result) => renderResult(result, pager, format, tmpDir);
+
+  test('returns the whole result without a note when it fits', async () => {
+    const usages = await analyzer.findPropUsage('size', tmpDir);
+    const page = renderPage(usages, propUsagesPager, render(propUsagesPager, 'full'), {
+      maxChars: 0,
+    });
+
+    assert.strictEqual(page.note, undefined);
+    assert.deepStrictEqual(JSON.parse(page.text), JSON.parse(JSON.stringify(usages)));
+  });
+
+  test('pages through items with limit and cursor', async () => {
+    const usages = await analyzer.findPropUsage('size', tmpDir);
+    const request = { limit: 8, maxChars: 0 };
+    const pages = [];
+    let cursor;
+    do {
+      const page = renderPage(usages, propUsagesPager, render(propUsagesPager, 'full'), {
+        ...request,
+        cursor,
+      });
+      pages.push(JSON.parse(page.text));
+      cursor = page.note.includes('cursor') ? cursorOf(page.note) : undefined;
+    } while (cursor);
+
+    assert.deepStrictEqual(
+      pages.map((page) => page.length),
+      [8, 8, 4]
+    );
+    assert.deepStrictEqual(pages.flat(), JSON.parse(JSON.stringify(usages)));
+  });
+
+  test('pages through several lists as one sequence and keeps the summary whole', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Button', 'type', tmpDir);
+    assert.strictEqual(result.missingPropUsages.length, 15);
+    assert.strictEqual(result.uncertainUsages.length, 5);
+
+    const page = renderPage(result, missingPropPager, render(missingPropPager, 'full'), {
+      limit: 5,
+      cursor: '',
+      maxChars: 0,
+    });
+    const second = renderPage(result, missingPropPager, render(missingPropPager, 'full'), {
+      limit: 5,
+      cursor: Buffer.from(JSON.stringify({ offset: 13 })).toString('base64url'),
+      maxChars: 0,
+    });
+    const sliced = JSON.parse(second.text);
+
+    assert.match(page.note, /^Showing items 1-5 of 20\./);
+    assert.strictEqual(sliced.missingPropUsages.length, 2);
+    assert.strictEqual(sliced.uncertainUsages.length, 3);
+    assert.deepStrictEqual(sliced.summary, result.summary);
+    assert.strictEqual(decodeCursor(cursorOf(second.note)), 18);
+  });
+
+  test('shortens pages to fit the character budget', async () => {
+    const result = await analyzer.analyzeProps(tmpDir);
+    const page = renderPage(result, analysisPager, render(analysisPager, 'compact'), {
+      maxChars: 1500,
+    });
+
+    assert.ok(page.text.length <= 1500);
+    const shown = JSON.parse(page.text);
+    const count = shown.components.length + shown.propUsages.length;
+    assert.ok(count > 0 && count < result.components.length + result.propUsages.length);
+    assert.match(page.note, /shortened to fit the 1500-character response budget/);
+    assert.strictEqual(decodeCursor(cursorOf(page.note)), count);
+  });
+
+  test('cuts off an item larger than the budget so paging moves on', async () => {
+    const usages = await analyzer.findPropUsage('size', tmpDir);
+    const page = renderPage(usages, propUsagesPager, render(propUsagesPager, 'full'), {
+      maxChars: 40,
+    });
+
+    assert.strictEqual(page.text.length, 40);
+    assert.match(page.note, /^Showing items 1-1 of 20\. Output cut at 40 characters/);
+    assert.strictEqual(decodeCursor(cursorOf(page.note)), 1);
+  });
+
+  test('pages rename diffs along with their files', async (t) => {
+    const renameDir = path.join(__dirname, 'tmp-jsx-responses-rename');
+    fs.mkdirSync(renameDir, { recursive: true });
+    t.after(() => fs.rmSync(renameDir, { recursive: true, force: true }));
+    for (const name of ['One', 'Two']) {
+      fs.writeFileSync(
+        path.join(renameDir, `${name}.tsx`),
+        `export const ${name} = () => <Button size="sm">${name}</Button>;\n`,
+        'utf8'
+      );
+    }
+    const result = await analyzer.renameProp('Button', 'size', 'scale', renameDir);
+    const pages = [0, 1].map((offset) =>
+      JSON.parse(
+        renderPage(result, renamePager, render(renamePager, 'full'), {
+          limit: 1,
+          cursor: offset ? Buffer.from(JSON.stringify({ offset })).toString('base64url') : '',
+          maxChars: 0,
+        }).text
+      )
+    );
+
+    for (const page of pages) {
+      assert.strictEqual(page.files.length, 1);
+      const name = path.basename(page.files[0].file);
+      assert.ok(page.diff.startsWith(`--- a/${name}\n`));
+      assert.strictEqual(page.diff.indexOf('--- a/', 1), -1, 'Only the diff of its own file');
+    }
+    assert.strictEqual(pages[0].diff + pages[1].diff, result.diff);
+  });
+
+  test('pages fixed files after the usages, each with its diff', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Button', 'type', tmpDir, {
+      fix: { defaultValue: "'button'" },
+    });
+
+    assert.strictEqual(missingPropPager.count(result), 21);
+    assert.deepStrictEqual(missingPropPager.slice(result, 0, 20).fix.files, []);
+    const last = missingPropPager.slice(result, 18, 21);
+    assert.strictEqual(last.uncertainUsages.length, 2);
+    assert.deepStrictEqual(last.fix.files, result.fix.files);
+  });
+
+  test('writes compact and minimal formats with relative paths', async () => {
+    const result = await analyzer.findComponentsWithoutProp('Button', 'type', tmpDir);
+    const compact = renderResult(result, missingPropPager, 'compact', tmpDir);
+    const minimal = renderResult(result, missingPropPager, 'minimal', tmpDir).split('\n');
+
+    assert.ok(!compact.includes('\n'));
+    assert.strictEqual(JSON.parse(compact).missingPropUsages[0].file, 'App.tsx');
+    assert.strictEqual(minimal[0], `summary: ${JSON.stringify(result.summary)}`);
+    assert.strictEqual(minimal[1], 'App.tsx:5:7 Button missing type');
+    assert.strictEqual(minimal[16], 'App.tsx:4:7 Button missing type unless passed by {...props}');
+  });
+
+  test('pages through audit findings across rules', async () => {
+    const result = await analyzer.auditProject(
+      [
+        { type: 'required-prop', component: 'Button', prop: 'type' },
+        { type: 'allowed-values', component: 'Button', prop: 'size', values: ['s0'] },
+      ],
+      tmpDir
+    );
+    const pager = auditPager();
+    // Elements spreading props after `size` have no constant value to check
+    assert.strictEqual(pager.count(result), 35);
+
+    const page = pager.slice(result, 18, 22);
+
+    assert.deepStrictEqual(
+      page.rules.map((rule) => [rule.findings.length, rule.uncertainFindings.length]),
+      [
+        [0, 2],
+        [2, 0],
+      ]
+    );
+    assert.deepStrictEqual(page.summary, result.summary);
+  });
+
+  test('rejects invalid cursors', () => {
+    assert.throws(() => decodeCursor('not a cursor'), /Invalid cursor/);
+    assert.throws(
+      () =>
+        renderPage([], propUsagesPager, render(propUsagesPager, 'full'), {
+          cursor: Buffer.from(JSON.stringify({ offset: 3 })).toString('base64url'),
+          maxChars: 0,
+        }),
+      /past the end/
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+import { formatReport, unknownPropsReport } from '../dist/utils/report-formats.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('find unknown props', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-unknown');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'components.tsx'),
+      `import React from 'react';
+import { withTheme } from 'styled-components';
+
+interface ButtonProps {
+  label: string;
+  color?: string;
+}
+
+export function Button({ label, color }: ButtonProps) {
+  return <button style={{ color }}>{label}</button>;
+}
+
+export const Link = ({ href, ...rest }) => <a href={href} {...rest} />;
+
+function Card({ title, theme }) {
+  return <div style={{ color: theme.color }}>{title}</div>;
+}
+
+export const ThemedCard = withTheme(Card);
+
+export const Passthrough = (props) => <div {...props} />;
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `import React from 'react';
+import { Button, Link, ThemedCard, Passthrough } from './components';
+
+export function App(props) {
+  return (
+    <div>
+      <Button key="save" label="Save" colour="red" />
+      <Button label="Cancel" color="gray" {...props} />
+      <Link href="/" aria-label="Home" />
+      <ThemedCard title="Hi" subtitle="there" />
+      <Passthrough anything="goes" />
+    </div>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reports props the component does not declare', async () => {
+    const result = await analyzer.findUnknownProps('Button', tmpDir);
+
+    assert.strictEqual(result.unknownPropUsages.length, 1);
+    const [usage] = result.unknownPropUsages;
+    assert.deepStrictEqual(usage.unknownProps, ['colour']);
+    assert.strictEqual(path.basename(usage.file), 'App.tsx');
+    assert.strictEqual(path.basename(usage.definitionFile), 'components.tsx');
+    assert.strictEqual(result.summary.totalCallSites, 2);
+  });
+
+  test('reports props forwarded through ...rest separately', async () => {
+    const result = await analyzer.findUnknownProps(undefined, tmpDir);
+
+    assert.deepStrictEqual(
+      result.forwardedPropUsages.map((u) => [u.componentName, u.unknownProps]),
+      [['Link', ['aria-label']]]
+    );
+    assert.deepStrictEqual(
+      result.unknownPropUsages.map((u) => [u.componentName, u.unknownProps]),
+      [
+        ['Button', ['colour']],
+        ['ThemedCard', ['subtitle']],
+      ]
+    );
+    assert.strictEqual(result.summary.unknownPropCount, 2);
+    assert.strictEqual(result.summary.forwardedPropCount, 1);
+  });
+
+  test('lists usages of props types that extend HTMLAttributes as uncertain', async () => {
+    const dir = path.join(tmpDir, 'html-attributes');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'Button.tsx'),
+      `import React from 'react';
+
+interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  variant?: 'primary' | 'secondary';
+}
+
+export function Button({ variant, children }: ButtonProps) {
+  return <button className={variant}>{children}</button>;
+}
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(dir, 'App.tsx'),
+      `import { Button } from './Button';
+
+export const App = () => <Button variant="primary" onClick={save} type="submit" />;
+`,
+      'utf8'
+    );
+
+    const result = await analyzer.findUnknownProps('Button', dir);
+    const report = JSON.parse(formatReport(unknownPropsReport(result, dir), 'sarif')).runs[0]
+      .results;
+
+    assert.deepStrictEqual(result.unknownPropUsages, []);
+    assert.deepStrictEqual(
+      result.uncertainPropUsages.map((u) => u.unknownProps),
+      [['onClick', 'type']]
+    );
+    assert.strictEqual(result.summary.unknownPropCount, 0);
+    assert.strictEqual(result.summary.uncertainPropCount, 2);
+    assert.deepStrictEqual(
+      report.map((r) => r.level),
+      ['note']
+    );
+  });
+});
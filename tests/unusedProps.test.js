@@ -0,0 +1,99 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('find unused props', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-unused');
+  const analyzer = new JSXPropAnalyzer();
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Button.tsx'),
+      `import React from 'react';
+
+interface ButtonProps {
+  label: string;
+  variant?: 'primary' | 'secondary';
+  icon?: string;
+  children?: React.ReactNode;
+}
+
+export function Button({ label, variant, icon, children }: ButtonProps) {
+  return <button className={variant}>{icon}{label}{children}</button>;
+}
+
+export const Badge = (props) => <span title={props.title}>{props.count}</span>;
+
+export function Orphan({ tone }) {
+  return <em>{tone}</em>;
+}
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `import React from 'react';
+import { Button, Badge } from './Button';
+
+export function App(rest) {
+  return (
+    <div>
+      <Button label="Save" variant="primary">
+        <b>!</b>
+      </Button>
+      <Button label="Cancel">
+      </Button>
+      <Badge count={1} />
+      <Badge {...rest} />
+    </div>
+  );
+}
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('reports declared props no call site passes', async () => {
+    const result = await analyzer.findUnusedProps('Button', tmpDir);
+
+    assert.strictEqual(result.components.length, 1);
+    const [button] = result.components;
+    assert.deepStrictEqual(button.unusedProps, ['icon']);
+    assert.strictEqual(button.callSiteCount, 2);
+    assert.strictEqual(button.spreadCallSiteCount, 0);
+    assert.strictEqual(button.uncertain, false);
+    assert.ok(button.declaredProps.includes('children'), 'children counts as passed by JSX');
+  });
+
+  test('flags components whose call sites spread props as uncertain', async () => {
+    const result = await analyzer.findUnusedProps('Badge', tmpDir);
+
+    const [badge] = result.components;
+    assert.deepStrictEqual(badge.unusedProps, ['title']);
+    assert.strictEqual(badge.callSiteCount, 2);
+    assert.strictEqual(badge.spreadCallSiteCount, 1);
+    assert.strictEqual(badge.uncertain, true);
+  });
+
+  test('checks every component when no name is given', async () => {
+    const result = await analyzer.findUnusedProps(undefined, tmpDir);
+
+    const names = result.components.map((c) => c.componentName).sort();
+    assert.deepStrictEqual(names, ['Badge', 'Button', 'Orphan']);
+    const orphan = result.components.find((c) => c.componentName === 'Orphan');
+    assert.deepStrictEqual(orphan.unusedProps, ['tone']);
+    assert.strictEqual(orphan.callSiteCount, 0);
+    assert.strictEqual(result.summary.totalComponents, 4);
+    assert.strictEqual(result.summary.totalUnusedProps, 3);
+  });
+});
@@ -0,0 +1,132 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('watch mode', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-watch');
+  const analyzer = new JSXPropAnalyzer({ workers: 0 });
+  let nextChange;
+
+  const write = (name, content) => fs.writeFileSync(path.join(tmpDir, name), content, 'utf8');
+  const changeApplied = () =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('No change event within 5s')), 5000);
+      nextChange = (files) => {
+        clearTimeout(timer);
+        resolve(files);
+      };
+    });
+  const componentNames = async () =>
+    (await analyzer.analyzeProps(tmpDir)).components.map((c) => c.componentName).sort();
+
+  before(async () => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    write('Button.tsx', `export const Button = ({ label }) => <button>{label}</button>;\n`);
+    write('LinkButton.tsx', `export const Button = ({ href }) => <a href={href} />;\n`);
+    write('index.ts', `export { Button } from './Button';\n`);
+    write(
+      'App.tsx',
+      `import { Button } from './index';\nexport const App = () => <Button label="Go" />;\n`
+    );
+    await analyzer.watch([tmpDir], (files) => nextChange?.(files));
+  });
+
+  after(async () => {
+    await analyzer.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('indexes the watched root on startup', async () => {
+    assert.deepStrictEqual(await componentNames(), ['App', 'Button', 'Button']);
+  });
+
+  test('refreshes a file after it changes', async () => {
+    const changed = changeApplied();
+    write(
+      'Button.tsx',
+      `export const Button = ({ label, icon }) => <button>{icon}{label}</button>;\n`
+    );
+    assert.ok((await changed).includes(path.join(tmpDir, 'Button.tsx')));
+
+    const [button] = (await analyzer.getComponentProps('Button', tmpDir)).filter(
+      (c) => c.file === path.join(tmpDir, 'Button.tsx')
+    );
+    assert.deepStrictEqual(button.props.map((p) => p.propName).sort(), ['icon', 'label']);
+  });
+
+  test('picks up created and deleted files', async () => {
+    let changed = changeApplied();
+    write('Card.tsx', `export const Card = ({ title }) => <div>{title}</div>;\n`);
+    await changed;
+    assert.deepStrictEqual(await componentNames(), ['App', 'Button', 'Button', 'Card']);
+
+    changed = changeApplied();
+    fs.rmSync(path.join(tmpDir, 'Card.tsx'));
+    await changed;
+    assert.deepStrictEqual(await componentNames(), ['App', 'Button', 'Button']);
+  });
+
+  test('refreshes results that depend on a changed module', async () => {
+    const definitionOf = async () => {
+      const result = await analyzer.analyzeProps(tmpDir, undefined, 'label');
+      return result.propUsages.find((u) => u.file.endsWith('App.tsx')).definitionFile;
+    };
+    assert.strictEqual(await definitionOf(), path.join(tmpDir, 'Button.tsx'));
+
+    const changed = changeApplied();
+    write('index.ts', `export { Button } from './LinkButton';\n`);
+    await changed;
+    assert.strictEqual(await definitionOf(), path.join(tmpDir, 'LinkButton.tsx'));
+  });
+
+  test('refreshes results whose import target is created later', async () => {
+    const definitionOf = async () => {
+      const result = await analyzer.analyzeProps(tmpDir, undefined, 'title');
+      return result.propUsages.find((u) => u.file.endsWith('Page.tsx'))?.definitionFile;
+    };
+    let changed = changeApplied();
+    write(
+      'Page.tsx',
+      `import { Panel } from './Panel';\nexport const Page = () => <Panel title="Home" />;\n`
+    );
+    await changed;
+    assert.strictEqual(await definitionOf(), undefined);
+
+    changed = changeApplied();
+    write('Panel.tsx', `export const Panel = ({ title }) => <h1>{title}</h1>;\n`);
+    await changed;
+    assert.strictEqual(await definitionOf(), path.join(tmpDir, 'Panel.tsx'));
+  });
+
+  test('refuses fixes computed before a pending change is applied', async () => {
+    const toolbarFile = path.join(tmpDir, 'Toolbar.tsx');
+    const fix = (apply) =>
+      analyzer.findComponentsWithoutProp('Button', 'label', tmpDir, {
+        fix: { defaultValue: "'More'" },
+        apply,
+      });
+    let changed = changeApplied();
+    write(
+      'Toolbar.tsx',
+      `import { Button } from './Button';\nexport const Toolbar = () => <Button />;\n`
+    );
+    await changed;
+    assert.strictEqual((await fix(false)).fix.files.length, 1);
+
+    // Until the debounced change is applied, the indexed result has offsets into the old content
+    changed = changeApplied();
+    const edited = `// toolbar\n${fs.readFileSync(toolbarFile, 'utf8')}`;
+    fs.writeFileSync(toolbarFile, edited, 'utf8');
+    await assert.rejects(fix(true), /changed while it was being analyzed/);
+    assert.strictEqual(fs.readFileSync(toolbarFile, 'utf8'), edited);
+
+    await changed;
+    assert.strictEqual((await fix(true)).fix.applied, true);
+    assert.ok(fs.readFileSync(toolbarFile, 'utf8').includes(`<Button label="More" />`));
+  });
+});
@@ -0,0 +1,43 @@
+import { test, describe, after } from 'node:test';
+import assert from 'node:assert';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const examplesDir = path.resolve(__dirname, '../examples/sample-components');
+
+describe('worker thread analysis', () => {
+  const parallel = new JSXPropAnalyzer({ workers: 2 });
+  const sequential = new JSXPropAnalyzer({ workers: 0 });
+
+  after(async () => {
+    await parallel.close();
+  });
+
+  test('analyzeProps matches the sequential result, in the same order', async () => {
+    const [fromWorkers, fromMainThread] = await Promise.all([
+      parallel.analyzeProps(examplesDir),
+      sequential.analyzeProps(examplesDir),
+    ]);
+    assert.ok(fromWorkers.components.length > 0, 'Should find components');
+    assert.deepStrictEqual(fromWorkers, fromMainThread);
+  });
+
+  test('getComponentProps keeps call sites resolved across files', async () => {
+    const [fromWorkers] = await parallel.getComponentProps('Button', examplesDir);
+    const [fromMainThread] = await sequential.getComponentProps('Button', examplesDir);
+    assert.ok(fromWorkers.callSites.length > 0, 'Should link usages to Button');
+    assert.deepStrictEqual(fromWorkers, fromMainThread);
+  });
+
+  test('findComponentsWithoutProp matches the sequential result', async () => {
+    const fromWorkers = await parallel.findComponentsWithoutProp('Button', 'disabled', examplesDir);
+    const fromMainThread = await sequential.findComponentsWithoutProp(
+      'Button',
+      'disabled',
+      examplesDir
+    );
+    assert.deepStrictEqual(fromWorkers, fromMainThread);
+  });
+});
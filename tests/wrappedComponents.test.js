@@ -0,0 +1,120 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JSXPropAnalyzer } from '../dist/jsx-analyzer.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('wrapped component definitions', () => {
+  const tmpDir = path.join(__dirname, 'tmp-jsx-wrapped');
+  const analyzer = new JSXPropAnalyzer({ customHocs: ['withAnalytics'] });
+
+  before(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, 'Wrapped.tsx'),
+      `import React, { memo, forwardRef } from 'react';
+import { observer } from 'mobx-react';
+
+interface ChipProps { label: string; selected?: boolean }
+
+export const Chip = memo<ChipProps>(({ label, selected = false }) => (
+  <span aria-selected={selected}>{label}</span>
+));
+
+export const Input = forwardRef(function Input({ label, placeholder }, ref) {
+  return <input ref={ref} aria-label={label} placeholder={placeholder} />;
+});
+
+export const Store = observer(function (props) {
+  return <ul>{props.items}</ul>;
+});
+
+export const Tracked = withAnalytics((props) => <a href={props.href}>{props.children}</a>);
+
+export const Unknown = withSomething((props) => <i>{props.ignored}</i>);
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'Card.tsx'),
+      `import React from 'react';
+import { withTheme } from 'styled-components';
+
+function Card({ title, theme }) {
+  return <div style={{ color: theme.color }}>{title}</div>;
+}
+
+export const ThemedCard = withTheme(Card);
+
+export default withRouter(withTheme(Card));
+`,
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, 'App.tsx'),
+      `import React from 'react';
+import RoutedCard from './Card';
+
+export const App = () => <RoutedCard title="Hello" />;
+`,
+      'utf8'
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const component = async (name) => {
+    const result = await analyzer.analyzeProps(tmpDir, name);
+    return result.components.find((c) => c.componentName === name);
+  };
+  const propNames = (c) => c.props.map((p) => p.propName).sort();
+
+  test('unwraps memo with generics and forwardRef with a named function', async () => {
+    const chip = await component('Chip');
+    assert.deepStrictEqual(chip.wrappers, ['memo']);
+    assert.deepStrictEqual(propNames(chip), ['label', 'selected']);
+    assert.strictEqual(chip.propsInterface, 'ChipProps');
+    assert.deepStrictEqual(
+      chip.propDefinitions.map((p) => p.name),
+      ['label', 'selected']
+    );
+
+    const input = await component('Input');
+    assert.deepStrictEqual(input.wrappers, ['forwardRef']);
+    assert.deepStrictEqual(propNames(input), ['label', 'placeholder']);
+  });
+
+  test('unwraps known and configured HOCs around function expressions', async () => {
+    const store = await component('Store');
+    assert.deepStrictEqual(store.wrappers, ['observer']);
+    assert.deepStrictEqual(propNames(store), ['items']);
+
+    const tracked = await component('Tracked');
+    assert.deepStrictEqual(tracked.wrappers, ['withAnalytics']);
+    assert.deepStrictEqual(propNames(tracked), ['children', 'href']);
+
+    assert.strictEqual(await component('Unknown'), undefined);
+  });
+
+  test('records HOCs applied to an existing component', async () => {
+    const themed = await component('ThemedCard');
+    assert.deepStrictEqual(themed.wrappers, ['withTheme']);
+    assert.strictEqual(themed.wrappedComponent, 'Card');
+
+    const card = await component('Card');
+    assert.deepStrictEqual(card.wrappers, ['withRouter', 'withTheme']);
+    assert.deepStrictEqual(propNames(card), ['theme', 'title']);
+  });
+
+  test('resolves default-exported HOC results to the wrapped component', async () => {
+    const [card] = await analyzer.getComponentProps('Card', tmpDir);
+    assert.strictEqual(card.callSites.length, 1);
+    assert.strictEqual(path.basename(card.callSites[0].file), 'App.tsx');
+    assert.deepStrictEqual(card.callSites[0].props, ['title']);
+  });
+});